@@ -0,0 +1,72 @@
+// Headless physics benchmark. Loads the engine through Vite's SSR loader so
+// the TypeScript sources and the `@` alias work as-is, then prints JSON.
+//
+//   npm run bench -- --counts 500,2000 --solvers sph,pbf --steps 600
+//   npm run bench -- --scenario pbf-8='{"solver":"pbf","pbf":{"iterations":8}}'
+import os from 'node:os';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { createServer } from 'vite';
+
+const root = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '..');
+
+function parseArgs(argv) {
+  const args = { scenarios: [] };
+  for (let i = 0; i < argv.length; i++) {
+    const flag = argv[i];
+    const value = argv[i + 1];
+    if (value === undefined) throw new Error(`Missing value for ${flag}`);
+    i++;
+
+    if (flag === '--counts') args.particleCounts = value.split(',').map(Number);
+    else if (flag === '--solvers') args.solvers = value.split(',');
+    else if (flag === '--steps') args.steps = Number(value);
+    else if (flag === '--warmup') args.warmupSteps = Number(value);
+    else if (flag === '--seed') args.seed = Number(value);
+    else if (flag === '--size') [args.width, args.height] = value.split('x').map(Number);
+    else if (flag === '--scenario') {
+      const separator = value.indexOf('=');
+      args.scenarios.push({ name: value.slice(0, separator), options: JSON.parse(value.slice(separator + 1)) });
+    } else throw new Error(`Unknown flag ${flag}`);
+  }
+  return args;
+}
+
+const args = parseArgs(process.argv.slice(2));
+
+const server = await createServer({
+  root,
+  configFile: false,
+  logLevel: 'error',
+  appType: 'custom',
+  server: { middlewareMode: true, hmr: false },
+  resolve: { alias: { '@': path.join(root, 'src') } },
+});
+
+try {
+  const { runBenchmark, DEFAULT_BENCHMARK_CONFIG } = await server.ssrLoadModule('/src/lib/fluid/benchmark.ts');
+  const { solvers, scenarios, ...overrides } = args;
+
+  let configScenarios = DEFAULT_BENCHMARK_CONFIG.scenarios;
+  if (solvers) configScenarios = solvers.map((solver) => ({ name: solver, options: { solver } }));
+  if (scenarios.length > 0) configScenarios = solvers ? [...configScenarios, ...scenarios] : scenarios;
+
+  const config = { ...DEFAULT_BENCHMARK_CONFIG, ...overrides, scenarios: configScenarios };
+  const results = runBenchmark(config, (result) => {
+    process.stderr.write(`${result.scenario} x${result.particleCount}: ${result.stepsPerSecond.toFixed(0)} steps/s\n`);
+  });
+
+  const report = {
+    date: new Date().toISOString(),
+    environment: {
+      node: process.version,
+      platform: `${os.platform()} ${os.arch()}`,
+      cpu: os.cpus()[0]?.model ?? 'unknown',
+    },
+    config,
+    results,
+  };
+  process.stdout.write(`${JSON.stringify(report, null, 2)}\n`);
+} finally {
+  await server.close();
+}
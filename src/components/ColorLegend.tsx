@@ -0,0 +1,54 @@
+import { useEffect, useRef, useState } from 'react';
+import { COLOR_SCALARS, type ColorScalar } from '@/lib/fluid/colorMap';
+import type { FrameStats } from '@/hooks/useParticleSystem';
+
+// The range labels follow the stats a few times a second rather than every frame
+const UPDATE_MS = 250;
+
+interface ColorLegendProps {
+  subscribe: (listener: (stats: FrameStats) => void) => () => void;
+  scalar: ColorScalar;
+  // CSS colours of the map, low to high
+  stops: readonly string[];
+}
+
+function formatValue(value: number) {
+  const magnitude = Math.abs(value);
+  if (magnitude >= 100) return value.toFixed(0);
+  if (magnitude >= 10) return value.toFixed(1);
+  return value.toFixed(2);
+}
+
+export function ColorLegend({ subscribe, scalar, stops }: ColorLegendProps) {
+  const [range, setRange] = useState<{ min: number; max: number } | null>(null);
+  const lastUpdateRef = useRef(0);
+
+  useEffect(() => {
+    setRange(null);
+    return subscribe((stats) => {
+      const now = performance.now();
+      if (now - lastUpdateRef.current < UPDATE_MS) return;
+      lastUpdateRef.current = now;
+      setRange({ min: stats.colorMin, max: stats.colorMax });
+    });
+  }, [subscribe, scalar]);
+
+  const { label, unit } = COLOR_SCALARS[scalar];
+
+  return (
+    <div className="w-56 p-3 rounded-lg bg-card/80 backdrop-blur-md border border-border/50">
+      <div className="flex items-baseline justify-between mb-2">
+        <span className="text-xs font-medium text-foreground">{label}</span>
+        {unit && <span className="text-xs text-muted-foreground">{unit}</span>}
+      </div>
+      <div
+        className="h-3 rounded-sm"
+        style={{ background: `linear-gradient(to right, ${stops.join(', ')})` }}
+      />
+      <div className="flex justify-between mt-1 text-xs text-muted-foreground tabular-nums">
+        <span>{range ? formatValue(range.min) : '—'}</span>
+        <span>{range ? formatValue(range.max) : '—'}</span>
+      </div>
+    </div>
+  );
+}
@@ -1,103 +1,267 @@
 import React, { useRef, useEffect, useCallback, useState } from 'react';
-import { useParticleSystem } from '@/hooks/useParticleSystem';
+import { useParticleSystem, type HandPosition, type LinkColorMode, type RendererKind, type ResizeMode, type SolverMode } from '@/hooks/useParticleSystem';
 import { useHandTracking } from '@/hooks/useHandTracking';
+import { randomSeed } from '@/lib/fluid/random';
+import { PointerInput } from '@/lib/fluid/pointerInput';
+import { GamepadInput, type GamepadAction } from '@/lib/fluid/gamepadInput';
+import { TOOLS, defaultToolSettings, getTool, type ToolId, type ToolSettings } from '@/lib/fluid/tools';
+import { COLOR_SCALARS, colorMapStops, type ColorMapName, type ColorScalar } from '@/lib/fluid/colorMap';
+import { ColorLegend } from '@/components/ColorLegend';
+import { PerformanceHud } from '@/components/PerformanceHud';
+import { ToolPalette } from '@/components/ToolPalette';
 import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
 import { Slider } from '@/components/ui/slider';
-import { Hand, Camera, MousePointer, RotateCcw, Settings, X } from 'lucide-react';
+import { Switch } from '@/components/ui/switch';
+import { Activity, Hand, Camera, Gauge, MousePointer, RotateCcw, Settings, Shuffle, X } from 'lucide-react';
+
+const TARGET_FPS_CHOICES = [0, 30, 60, 120];
+
+const RENDER_SCALE_CHOICES = [0.5, 1, 2];
+
+// Drag-resizing fires a stream of events; only the size it settles at is applied
+const RESIZE_DEBOUNCE_MS = 150;
+
+const RENDERER_CHOICES: { kind: RendererKind; label: string }[] = [
+  { kind: 'canvas2d', label: 'Canvas' },
+  { kind: 'webgl2', label: 'WebGL' },
+  { kind: 'svg', label: 'SVG' },
+];
+
+// Looks a gamepad's shoulder buttons step through; the first matches the initial settings
+const PRESETS: { name: string; solver: SolverMode; links: boolean; surface: boolean; colorScalar: ColorScalar }[] = [
+  { name: 'Drift', solver: 'floaty', links: true, surface: false, colorScalar: 'none' },
+  { name: 'Liquid', solver: 'sph', links: false, surface: true, colorScalar: 'none' },
+  { name: 'Splash', solver: 'flip', links: false, surface: false, colorScalar: 'speed' },
+  { name: 'Smoke', solver: 'stable', links: false, surface: false, colorScalar: 'speed' },
+];
+
+const COLOR_MAP_CHOICES: { name: ColorMapName; label: string }[] = [
+  { name: 'theme', label: 'Theme' },
+  { name: 'viridis', label: 'Viridis' },
+  { name: 'magma', label: 'Magma' },
+  { name: 'custom', label: 'Custom' },
+];
 
 export function FluidSimulation() {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const containerRef = useRef<HTMLDivElement>(null);
+  const pointerInputRef = useRef<PointerInput | null>(null);
+  const gamepadInputRef = useRef<GamepadInput | null>(null);
+  const gamepadActionRef = useRef<(action: GamepadAction) => void>(() => {});
+  // Pointer or hand interactors and gamepad ones arrive separately and go to the engine together
+  const directInteractorsRef = useRef<HandPosition[]>([]);
+  const gamepadInteractorsRef = useRef<HandPosition[]>([]);
+  const toolRef = useRef(TOOLS[0]);
   
   const [showControls, setShowControls] = useState(false);
+  const [showPerformance, setShowPerformance] = useState(false);
   const [particleCount] = useState(400);
-  const [interactionRadius, setInteractionRadius] = useState(150);
-  const [interactionStrength, setInteractionStrength] = useState(0.5);
-  const [isMouseDown, setIsMouseDown] = useState(false);
+  const [tool, setTool] = useState<ToolId>('repel');
+  // Radius and strength are remembered per tool
+  const [toolSettings, setToolSettings] = useState(defaultToolSettings);
   const [useHandControl, setUseHandControl] = useState(false);
+  const [solver, setSolver] = useState<SolverMode>('floaty');
+  const [pbfIterations, setPbfIterations] = useState(4);
+  const [flipRatio, setFlipRatio] = useState(0.9);
+  const [targetFps, setTargetFps] = useState(60);
+  const [linksEnabled, setLinksEnabled] = useState(true);
+  const [linkDistance, setLinkDistance] = useState(50);
+  const [maxLinks, setMaxLinks] = useState(12);
+  const [linkColorMode, setLinkColorMode] = useState<LinkColorMode>('fixed');
+  const [renderer, setRenderer] = useState<RendererKind>('canvas2d');
+  const [renderScale, setRenderScale] = useState(1);
+  const [resizeMode, setResizeMode] = useState<ResizeMode>('keep');
+  const [surfaceEnabled, setSurfaceEnabled] = useState(false);
+  const [surfaceThreshold, setSurfaceThreshold] = useState(0.5);
+  const [surfaceFill, setSurfaceFill] = useState('#0a7cff');
+  const [surfaceEdge, setSurfaceEdge] = useState('#9befff');
+  const [surfaceEdgeWidth, setSurfaceEdgeWidth] = useState(1.5);
+  const [colorScalar, setColorScalar] = useState<ColorScalar>('none');
+  const [colorMapName, setColorMapName] = useState<ColorMapName>('theme');
+  const [customStops, setCustomStops] = useState(['#0b1d3a', '#00d2ff', '#ffffff']);
+  const [presetIndex, setPresetIndex] = useState(0);
+  const [seed, setSeed] = useState(randomSeed);
+  const [seedDraft, setSeedDraft] = useState(() => String(seed));
+
+  const activeTool = getTool(tool);
+  const { radius: interactionRadius, strength: interactionStrength } = toolSettings[tool];
+  const updateToolSettings = (settings: Partial<ToolSettings>) => {
+    setToolSettings((current) => ({ ...current, [tool]: { ...current[tool], ...settings } }));
+  };
 
-  const { start, stop, setHandPosition, reinitialize } = useParticleSystem(
+  const { start, stop, setInteractors, reinitialize, resize, qualityTier, activeRenderer, subscribeStats } = useParticleSystem(
     canvasRef,
     particleCount,
     interactionRadius,
-    interactionStrength
+    interactionStrength,
+    {
+      solver,
+      seed,
+      resizeMode,
+      pbf: { iterations: pbfIterations },
+      flip: { flipRatio },
+      links: { enabled: linksEnabled, maxDistance: linkDistance, maxLinksPerParticle: maxLinks, colorMode: linkColorMode },
+      surface: {
+        enabled: surfaceEnabled,
+        threshold: surfaceThreshold,
+        fillColor: surfaceFill,
+        edgeColor: surfaceEdge,
+        edgeWidth: surfaceEdgeWidth,
+      },
+      colors: { scalar: colorScalar, colorMap: colorMapName, customStops },
+      offscreen: true,
+      targetFps,
+      renderer,
+      renderScale,
+    }
   );
 
+  const setDirectInteractors = useCallback((interactors: HandPosition[]) => {
+    directInteractorsRef.current = interactors;
+    setInteractors([...interactors, ...gamepadInteractorsRef.current]);
+  }, [setInteractors]);
+
+  const setGamepadInteractors = useCallback((interactors: HandPosition[]) => {
+    gamepadInteractorsRef.current = interactors;
+    setInteractors([...directInteractorsRef.current, ...interactors]);
+  }, [setInteractors]);
+
+  const applyPreset = (index: number) => {
+    const preset = PRESETS[index];
+    setPresetIndex(index);
+    setSolver(preset.solver);
+    setLinksEnabled(preset.links);
+    setSurfaceEnabled(preset.surface);
+    setColorScalar(preset.colorScalar);
+  };
+
   const handleHandUpdate = useCallback((hand: { x: number; y: number; isOpen: boolean } | null) => {
     if (hand && canvasRef.current) {
-      // Scale from video coordinates to canvas coordinates
+      // Scale from video coordinates to world coordinates, which are the
+      // canvas's CSS pixels whatever its backing store size.
       const canvas = canvasRef.current;
-      const scaleX = canvas.width / 320;
-      const scaleY = canvas.height / 240;
+      const scaleX = canvas.clientWidth / 320;
+      const scaleY = canvas.clientHeight / 240;
       
-      setHandPosition({
+      // An open hand uses the tool as is and a closed one inverts it
+      const { mode, isOpen } = toolRef.current;
+      setDirectInteractors([{
         x: hand.x * scaleX,
         y: hand.y * scaleY,
-        isOpen: hand.isOpen,
-      });
+        isOpen: hand.isOpen ? isOpen : !isOpen,
+        mode,
+      }]);
     } else {
-      setHandPosition(null);
+      setDirectInteractors([]);
     }
-  }, [setHandPosition]);
+  }, [setDirectInteractors]);
 
   const { initialize: initHandTracking, stop: stopHandTracking, isLoading: handLoading, error: handError, isActive: handActive } = useHandTracking(handleHandUpdate);
 
-  // Mouse/touch controls
-  const handleMouseMove = useCallback((e: React.MouseEvent<HTMLCanvasElement>) => {
-    if (!useHandControl) {
-      const rect = canvasRef.current?.getBoundingClientRect();
-      if (rect) {
-        setHandPosition({
-          x: e.clientX - rect.left,
-          y: e.clientY - rect.top,
-          isOpen: !isMouseDown,
-        });
-      }
-    }
-  }, [useHandControl, isMouseDown, setHandPosition]);
+  // Mouse, touch and pen. The input keeps its own state and feeds the
+  // engine directly, so pointer activity never re-renders this component.
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas || useHandControl) return;
 
-  const handleMouseLeave = useCallback(() => {
-    if (!useHandControl) {
-      setHandPosition(null);
-    }
-  }, [useHandControl, setHandPosition]);
-
-  const handleTouchMove = useCallback((e: React.TouchEvent<HTMLCanvasElement>) => {
-    if (!useHandControl && e.touches.length > 0) {
-      const rect = canvasRef.current?.getBoundingClientRect();
-      if (rect) {
-        setHandPosition({
-          x: e.touches[0].clientX - rect.left,
-          y: e.touches[0].clientY - rect.top,
-          isOpen: false,
-        });
+    const input = new PointerInput(canvas, setDirectInteractors);
+    input.tool = toolRef.current;
+    pointerInputRef.current = input;
+    return () => {
+      input.dispose();
+      pointerInputRef.current = null;
+    };
+    // A renderer change mounts a fresh canvas to listen on
+  }, [useHandControl, setDirectInteractors, renderer]);
+
+  // Game controllers, alongside pointer or hand input, for setups without a mouse
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+
+    const input = new GamepadInput(canvas, setGamepadInteractors, (action) => gamepadActionRef.current(action));
+    input.tool = toolRef.current;
+    gamepadInputRef.current = input;
+    return () => {
+      input.dispose();
+      gamepadInputRef.current = null;
+    };
+  }, [setGamepadInteractors, renderer]);
+
+  // Buttons act on the latest state without restarting the gamepad input
+  useEffect(() => {
+    gamepadActionRef.current = (action) => {
+      if (action === 'reset') {
+        reinitialize();
+      } else if (action === 'toggleSettings') {
+        setShowControls((shown) => !shown);
+      } else {
+        const offset = action === 'nextPreset' ? 1 : PRESETS.length - 1;
+        applyPreset((presetIndex + offset) % PRESETS.length);
       }
-    }
-  }, [useHandControl, setHandPosition]);
+    };
+  });
+
+  useEffect(() => {
+    toolRef.current = activeTool;
+    if (pointerInputRef.current) pointerInputRef.current.tool = activeTool;
+    if (gamepadInputRef.current) gamepadInputRef.current.tool = activeTool;
+  }, [activeTool]);
 
-  // Handle canvas resize and start simulation immediately
+  // Number keys pick tools, except while typing into a field
   useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.ctrlKey || event.metaKey || event.altKey) return;
+      const target = event.target as HTMLElement | null;
+      if (target && (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.isContentEditable)) return;
+
+      const shortcut = TOOLS.find((candidate) => candidate.shortcut === event.key);
+      if (shortcut) setTool(shortcut.id);
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
+  // Handle canvas resize and start simulation immediately. Resizing keeps
+  // the particles; the engine moves them into the new bounds.
+  useEffect(() => {
+    let resizeTimer = 0;
     const handleResize = () => {
-      const canvas = canvasRef.current;
       const container = containerRef.current;
-      if (!canvas || !container) return;
+      if (!container) return;
 
-      canvas.width = container.clientWidth;
-      canvas.height = container.clientHeight;
-      reinitialize();
+      resize(container.clientWidth, container.clientHeight);
+    };
+    const scheduleResize = () => {
+      window.clearTimeout(resizeTimer);
+      resizeTimer = window.setTimeout(handleResize, RESIZE_DEBOUNCE_MS);
     };
 
     handleResize();
-    window.addEventListener('resize', handleResize);
+    window.addEventListener('resize', scheduleResize);
     
     // Start simulation immediately
     start();
 
     return () => {
-      window.removeEventListener('resize', handleResize);
+      window.clearTimeout(resizeTimer);
+      window.removeEventListener('resize', scheduleResize);
       stop();
     };
-  }, []);
+    // A renderer change mounts a fresh canvas, so restart on it
+  }, [resize, start, stop, renderer]);
+
+  // Restart from the new seed so the run can be replayed
+  useEffect(() => {
+    reinitialize();
+  }, [seed, reinitialize]);
+
+  const applySeed = (value: number) => {
+    const next = Math.floor(Math.abs(value)) >>> 0;
+    setSeed(next);
+    setSeedDraft(String(next));
+  };
 
   const toggleHandControl = async () => {
     if (useHandControl) {
@@ -113,14 +277,9 @@ export function FluidSimulation() {
     <div ref={containerRef} className="relative w-full h-screen overflow-hidden bg-background">
       {/* Particle canvas */}
       <canvas
+        key={renderer}
         ref={canvasRef}
-        className="absolute inset-0 w-full h-full cursor-none"
-        onMouseMove={handleMouseMove}
-        onMouseDown={() => setIsMouseDown(true)}
-        onMouseUp={() => setIsMouseDown(false)}
-        onMouseLeave={handleMouseLeave}
-        onTouchMove={handleTouchMove}
-        onTouchEnd={() => setHandPosition(null)}
+        className="absolute inset-0 w-full h-full cursor-none touch-none"
       />
 
       {/* Overlay UI */}
@@ -133,11 +292,19 @@ export function FluidSimulation() {
                 Fluid Particles
               </h1>
               <p className="text-sm text-muted-foreground mt-1">
-                {useHandControl ? 'Control with motion' : 'Move mouse to interact • Click to attract'}
+                {useHandControl ? 'Control with motion' : 'Move mouse to interact • Keys 1–8 switch tools'}
               </p>
             </div>
             
             <div className="flex items-center gap-3">
+              {/* Adaptive quality indicator */}
+              {targetFps > 0 && (
+                <div className="flex items-center gap-2 px-3 py-1.5 rounded-full bg-muted/50 border border-border/50">
+                  <Gauge className="w-3 h-3 text-primary" />
+                  <span className="text-sm text-muted-foreground">{qualityTier.name}</span>
+                </div>
+              )}
+
               {/* Control mode indicator */}
               <div className="flex items-center gap-2 px-3 py-1.5 rounded-full bg-muted/50 border border-border/50">
                 {useHandControl ? (
@@ -181,12 +348,105 @@ export function FluidSimulation() {
             <div className="space-y-5">
               <div>
                 <label className="text-xs text-muted-foreground mb-2 block">
-                  Interaction Radius: {interactionRadius}px
+                  Preset
+                </label>
+                <div className="grid grid-cols-2 gap-2">
+                  {PRESETS.map((preset, index) => (
+                    <Button
+                      key={preset.name}
+                      variant={presetIndex === index ? "secondary" : "outline"}
+                      size="sm"
+                      onClick={() => applyPreset(index)}
+                    >
+                      {preset.name}
+                    </Button>
+                  ))}
+                </div>
+              </div>
+
+              <div>
+                <label className="text-xs text-muted-foreground mb-2 block">
+                  Fluid Model
+                </label>
+                <div className="grid grid-cols-3 gap-2">
+                  <Button
+                    variant={solver === 'floaty' ? "secondary" : "outline"}
+                    size="sm"
+                    onClick={() => setSolver('floaty')}
+                  >
+                    Floaty
+                  </Button>
+                  <Button
+                    variant={solver === 'sph' ? "secondary" : "outline"}
+                    size="sm"
+                    onClick={() => setSolver('sph')}
+                  >
+                    SPH
+                  </Button>
+                  <Button
+                    variant={solver === 'pbf' ? "secondary" : "outline"}
+                    size="sm"
+                    onClick={() => setSolver('pbf')}
+                  >
+                    PBF
+                  </Button>
+                  <Button
+                    variant={solver === 'flip' ? "secondary" : "outline"}
+                    size="sm"
+                    onClick={() => setSolver('flip')}
+                  >
+                    FLIP
+                  </Button>
+                  <Button
+                    variant={solver === 'stable' ? "secondary" : "outline"}
+                    size="sm"
+                    onClick={() => setSolver('stable')}
+                  >
+                    Smoke
+                  </Button>
+                </div>
+              </div>
+
+              {solver === 'flip' && (
+                <div>
+                  <label className="text-xs text-muted-foreground mb-2 block">
+                    FLIP / PIC Blend: {flipRatio.toFixed(2)}
+                  </label>
+                  <Slider
+                    value={[flipRatio * 100]}
+                    onValueChange={(v) => setFlipRatio(v[0] / 100)}
+                    min={0}
+                    max={100}
+                    step={5}
+                    className="w-full"
+                  />
+                </div>
+              )}
+
+              {solver === 'pbf' && (
+                <div>
+                  <label className="text-xs text-muted-foreground mb-2 block">
+                    Solver Iterations: {pbfIterations}
+                  </label>
+                  <Slider
+                    value={[pbfIterations]}
+                    onValueChange={(v) => setPbfIterations(v[0])}
+                    min={1}
+                    max={10}
+                    step={1}
+                    className="w-full"
+                  />
+                </div>
+              )}
+
+              <div>
+                <label className="text-xs text-muted-foreground mb-2 block">
+                  {activeTool.label} Radius: {interactionRadius}px
                 </label>
                 <Slider
                   value={[interactionRadius]}
-                  onValueChange={(v) => setInteractionRadius(v[0])}
-                  min={50}
+                  onValueChange={(v) => updateToolSettings({ radius: v[0] })}
+                  min={10}
                   max={300}
                   step={10}
                   className="w-full"
@@ -195,11 +455,11 @@ export function FluidSimulation() {
 
               <div>
                 <label className="text-xs text-muted-foreground mb-2 block">
-                  Interaction Strength: {interactionStrength.toFixed(2)}
+                  {activeTool.label} Strength: {interactionStrength.toFixed(2)}
                 </label>
                 <Slider
                   value={[interactionStrength * 100]}
-                  onValueChange={(v) => setInteractionStrength(v[0] / 100)}
+                  onValueChange={(v) => updateToolSettings({ strength: v[0] / 100 })}
                   min={10}
                   max={100}
                   step={5}
@@ -207,6 +467,285 @@ export function FluidSimulation() {
                 />
               </div>
 
+              <div>
+                <div className="flex items-center justify-between">
+                  <label className="text-xs text-muted-foreground">
+                    Connection Lines
+                  </label>
+                  <Switch checked={linksEnabled} onCheckedChange={setLinksEnabled} />
+                </div>
+
+                {linksEnabled && (
+                  <div className="space-y-4 mt-3">
+                    <div>
+                      <label className="text-xs text-muted-foreground mb-2 block">
+                        Link Distance: {linkDistance}px
+                      </label>
+                      <Slider
+                        value={[linkDistance]}
+                        onValueChange={(v) => setLinkDistance(v[0])}
+                        min={20}
+                        max={120}
+                        step={5}
+                        className="w-full"
+                      />
+                    </div>
+
+                    <div>
+                      <label className="text-xs text-muted-foreground mb-2 block">
+                        Links per Particle: {maxLinks}
+                      </label>
+                      <Slider
+                        value={[maxLinks]}
+                        onValueChange={(v) => setMaxLinks(v[0])}
+                        min={1}
+                        max={20}
+                        step={1}
+                        className="w-full"
+                      />
+                    </div>
+
+                    <div className="grid grid-cols-2 gap-2">
+                      <Button
+                        variant={linkColorMode === 'fixed' ? "secondary" : "outline"}
+                        size="sm"
+                        onClick={() => setLinkColorMode('fixed')}
+                      >
+                        Fixed Colour
+                      </Button>
+                      <Button
+                        variant={linkColorMode === 'particle' ? "secondary" : "outline"}
+                        size="sm"
+                        onClick={() => setLinkColorMode('particle')}
+                      >
+                        Particle Gradient
+                      </Button>
+                    </div>
+                  </div>
+                )}
+              </div>
+
+              <div>
+                <div className="flex items-center justify-between">
+                  <label className="text-xs text-muted-foreground">
+                    Liquid Surface
+                  </label>
+                  <Switch checked={surfaceEnabled} onCheckedChange={setSurfaceEnabled} />
+                </div>
+
+                {surfaceEnabled && (
+                  <div className="space-y-4 mt-3">
+                    <div>
+                      <label className="text-xs text-muted-foreground mb-2 block">
+                        Threshold: {surfaceThreshold.toFixed(2)}
+                      </label>
+                      <Slider
+                        value={[surfaceThreshold * 100]}
+                        onValueChange={(v) => setSurfaceThreshold(v[0] / 100)}
+                        min={10}
+                        max={200}
+                        step={5}
+                        className="w-full"
+                      />
+                    </div>
+
+                    <div>
+                      <label className="text-xs text-muted-foreground mb-2 block">
+                        Edge Highlight: {surfaceEdgeWidth > 0 ? `${surfaceEdgeWidth}px` : 'Off'}
+                      </label>
+                      <Slider
+                        value={[surfaceEdgeWidth]}
+                        onValueChange={(v) => setSurfaceEdgeWidth(v[0])}
+                        min={0}
+                        max={4}
+                        step={0.5}
+                        className="w-full"
+                      />
+                    </div>
+
+                    <div className="grid grid-cols-2 gap-2">
+                      <label className="text-xs text-muted-foreground">
+                        Fill
+                        <Input
+                          type="color"
+                          value={surfaceFill}
+                          onChange={(e) => setSurfaceFill(e.target.value)}
+                          className="h-8 mt-1 p-1"
+                        />
+                      </label>
+                      <label className="text-xs text-muted-foreground">
+                        Edge
+                        <Input
+                          type="color"
+                          value={surfaceEdge}
+                          onChange={(e) => setSurfaceEdge(e.target.value)}
+                          className="h-8 mt-1 p-1"
+                        />
+                      </label>
+                    </div>
+                  </div>
+                )}
+              </div>
+
+              <div>
+                <label className="text-xs text-muted-foreground mb-2 block">
+                  Colour By
+                </label>
+                <div className="grid grid-cols-3 gap-2">
+                  {(Object.keys(COLOR_SCALARS) as ColorScalar[]).map((scalar) => (
+                    <Button
+                      key={scalar}
+                      variant={colorScalar === scalar ? "secondary" : "outline"}
+                      size="sm"
+                      onClick={() => setColorScalar(scalar)}
+                      className="px-1 text-xs"
+                    >
+                      {COLOR_SCALARS[scalar].label}
+                    </Button>
+                  ))}
+                </div>
+
+                {colorScalar !== 'none' && (
+                  <div className="space-y-3 mt-3">
+                    <div className="grid grid-cols-4 gap-2">
+                      {COLOR_MAP_CHOICES.map(({ name, label }) => (
+                        <Button
+                          key={name}
+                          variant={colorMapName === name ? "secondary" : "outline"}
+                          size="sm"
+                          onClick={() => setColorMapName(name)}
+                          className="px-1 text-xs"
+                        >
+                          {label}
+                        </Button>
+                      ))}
+                    </div>
+
+                    {colorMapName === 'custom' && (
+                      <div className="grid grid-cols-3 gap-2">
+                        {customStops.map((stop, index) => (
+                          <Input
+                            key={index}
+                            type="color"
+                            value={stop}
+                            onChange={(e) => setCustomStops(customStops.map((previous, i) => i === index ? e.target.value : previous))}
+                            className="h-8 p-1"
+                          />
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                )}
+              </div>
+
+              <div>
+                <label className="text-xs text-muted-foreground mb-2 block">
+                  Renderer{activeRenderer !== renderer && ' • unavailable, using Canvas'}
+                </label>
+                <div className="grid grid-cols-3 gap-2">
+                  {RENDERER_CHOICES.map(({ kind, label }) => (
+                    <Button
+                      key={kind}
+                      variant={renderer === kind ? "secondary" : "outline"}
+                      size="sm"
+                      onClick={() => setRenderer(kind)}
+                    >
+                      {label}
+                    </Button>
+                  ))}
+                </div>
+              </div>
+
+              <div>
+                <label className="text-xs text-muted-foreground mb-2 block">
+                  Render Scale
+                </label>
+                <div className="grid grid-cols-3 gap-2">
+                  {RENDER_SCALE_CHOICES.map((scale) => (
+                    <Button
+                      key={scale}
+                      variant={renderScale === scale ? "secondary" : "outline"}
+                      size="sm"
+                      onClick={() => setRenderScale(scale)}
+                    >
+                      {scale}×
+                    </Button>
+                  ))}
+                </div>
+              </div>
+
+              <div>
+                <label className="text-xs text-muted-foreground mb-2 block">
+                  On Window Resize
+                </label>
+                <div className="grid grid-cols-2 gap-2">
+                  <Button
+                    variant={resizeMode === 'keep' ? "secondary" : "outline"}
+                    size="sm"
+                    onClick={() => setResizeMode('keep')}
+                  >
+                    Keep Size
+                  </Button>
+                  <Button
+                    variant={resizeMode === 'stretch' ? "secondary" : "outline"}
+                    size="sm"
+                    onClick={() => setResizeMode('stretch')}
+                  >
+                    Stretch
+                  </Button>
+                </div>
+              </div>
+
+              <div>
+                <label className="text-xs text-muted-foreground mb-2 block">
+                  Target Frame Rate{targetFps > 0 && ` • ${qualityTier.name} quality`}
+                </label>
+                <div className="grid grid-cols-4 gap-2">
+                  {TARGET_FPS_CHOICES.map((fps) => (
+                    <Button
+                      key={fps}
+                      variant={targetFps === fps ? "secondary" : "outline"}
+                      size="sm"
+                      onClick={() => setTargetFps(fps)}
+                    >
+                      {fps > 0 ? fps : 'Off'}
+                    </Button>
+                  ))}
+                </div>
+              </div>
+
+              <div>
+                <label className="text-xs text-muted-foreground mb-2 block">
+                  Seed: {seed}
+                </label>
+                <div className="flex items-center gap-2">
+                  <Input
+                    type="number"
+                    value={seedDraft}
+                    onChange={(e) => setSeedDraft(e.target.value)}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter') applySeed(Number(seedDraft) || 0);
+                    }}
+                    className="h-8"
+                  />
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => applySeed(Number(seedDraft) || 0)}
+                  >
+                    Apply
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="icon"
+                    className="h-8 w-8 flex-shrink-0"
+                    onClick={() => applySeed(randomSeed())}
+                  >
+                    <Shuffle className="w-4 h-4" />
+                  </Button>
+                </div>
+              </div>
+
               <div className="pt-2 border-t border-border/50">
                 <Button
                   variant={useHandControl ? "secondary" : "outline"}
@@ -240,8 +779,27 @@ export function FluidSimulation() {
           </div>
         )}
 
+        {/* Performance overlay */}
+        {showPerformance && (
+          <div className="absolute top-24 left-6 pointer-events-auto">
+            <PerformanceHud subscribe={subscribeStats} />
+          </div>
+        )}
+
+        {/* Colour map legend */}
+        {colorScalar !== 'none' && (
+          <div className="absolute bottom-6 right-6 pointer-events-auto">
+            <ColorLegend
+              subscribe={subscribeStats}
+              scalar={colorScalar}
+              stops={colorMapStops({ scalar: colorScalar, colorMap: colorMapName, customStops })}
+            />
+          </div>
+        )}
+
         {/* Bottom controls */}
         <div className="absolute bottom-6 left-1/2 -translate-x-1/2 flex items-center gap-3 pointer-events-auto">
+          <ToolPalette tool={tool} onSelect={setTool} />
           <Button
             variant="outline"
             size="icon"
@@ -250,6 +808,14 @@ export function FluidSimulation() {
           >
             <RotateCcw className="w-4 h-4" />
           </Button>
+          <Button
+            variant={showPerformance ? "secondary" : "outline"}
+            size="icon"
+            onClick={() => setShowPerformance(!showPerformance)}
+            className="border-border/50 hover:bg-muted"
+          >
+            <Activity className="w-4 h-4" />
+          </Button>
         </div>
 
         {/* Instructions */}
@@ -262,11 +828,13 @@ export function FluidSimulation() {
                 </div>
                 <div>
                   <p className="text-xs text-muted-foreground">
-                    <span className="text-accent font-medium">Large motion</span> → repels
-                  </p>
-                  <p className="text-xs text-muted-foreground mt-1">
-                    <span className="text-secondary font-medium">Small motion</span> → attracts
+                    <span className="text-accent font-medium">Large motion</span> → {activeTool.label}
                   </p>
+                  {activeTool.mode !== 'drag' && activeTool.mode !== 'emit' && activeTool.mode !== 'erase' && (
+                    <p className="text-xs text-muted-foreground mt-1">
+                      <span className="text-secondary font-medium">Small motion</span> → {activeTool.label} reversed
+                    </p>
+                  )}
                 </div>
               </div>
             ) : (
@@ -276,10 +844,10 @@ export function FluidSimulation() {
                 </div>
                 <div>
                   <p className="text-xs text-muted-foreground">
-                    <span className="text-primary font-medium">Move</span> → repels particles
+                    <span className="text-primary font-medium">{activeTool.label}</span> ({activeTool.shortcut})
                   </p>
                   <p className="text-xs text-muted-foreground mt-1">
-                    <span className="text-secondary font-medium">Click & hold</span> → attracts
+                    {activeTool.hint}
                   </p>
                 </div>
               </div>
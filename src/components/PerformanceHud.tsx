@@ -0,0 +1,110 @@
+import { useEffect, useRef, useState } from 'react';
+import { CartesianGrid, Line, LineChart, XAxis, YAxis } from 'recharts';
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from '@/components/ui/chart';
+import type { FrameStats } from '@/hooks/useParticleSystem';
+
+// Frames are averaged into one chart point per bucket so the charts redraw a few times a second
+const BUCKET_MS = 250;
+
+interface StatsPoint {
+  time: number;
+  frameMs: number;
+  physicsMs: number;
+  renderMs: number;
+  particleCount: number;
+  neighborPairs: number;
+}
+
+const timingConfig = {
+  frameMs: { label: 'Frame', color: 'hsl(var(--primary))' },
+  physicsMs: { label: 'Physics', color: 'hsl(var(--accent))' },
+  renderMs: { label: 'Render', color: 'hsl(270, 80%, 65%)' },
+} satisfies ChartConfig;
+
+const countConfig = {
+  particleCount: { label: 'Particles', color: 'hsl(var(--primary))' },
+  neighborPairs: { label: 'Neighbour pairs', color: 'hsl(320, 80%, 60%)' },
+} satisfies ChartConfig;
+
+interface PerformanceHudProps {
+  subscribe: (listener: (stats: FrameStats) => void) => () => void;
+  // How much history the charts keep
+  windowSeconds?: number;
+}
+
+export function PerformanceHud({ subscribe, windowSeconds = 30 }: PerformanceHudProps) {
+  const [points, setPoints] = useState<StatsPoint[]>([]);
+  const bucketRef = useRef({ start: 0, frames: 0, frameMs: 0, physicsMs: 0, renderMs: 0, neighborPairs: 0, particleCount: 0 });
+
+  useEffect(() => {
+    const maxPoints = Math.ceil(windowSeconds * 1000 / BUCKET_MS);
+
+    return subscribe((stats) => {
+      const bucket = bucketRef.current;
+      const now = performance.now();
+      if (bucket.frames === 0) bucket.start = now;
+
+      bucket.frames++;
+      bucket.frameMs += stats.frameMs;
+      bucket.physicsMs += stats.physicsMs;
+      bucket.renderMs += stats.renderMs;
+      bucket.neighborPairs += stats.neighborPairs;
+      bucket.particleCount = stats.particleCount;
+      if (now - bucket.start < BUCKET_MS) return;
+
+      const point: StatsPoint = {
+        time: Math.round(now / 1000),
+        frameMs: bucket.frameMs / bucket.frames,
+        physicsMs: bucket.physicsMs / bucket.frames,
+        renderMs: bucket.renderMs / bucket.frames,
+        particleCount: bucket.particleCount,
+        neighborPairs: Math.round(bucket.neighborPairs / bucket.frames),
+      };
+      bucketRef.current = { ...bucket, frames: 0, frameMs: 0, physicsMs: 0, renderMs: 0, neighborPairs: 0 };
+      setPoints((previous) => [...previous.slice(-(maxPoints - 1)), point]);
+    });
+  }, [subscribe, windowSeconds]);
+
+  const latest = points[points.length - 1];
+
+  return (
+    <div className="w-80 p-4 rounded-xl bg-card/90 backdrop-blur-xl border border-border/50 shadow-glow">
+      <div className="flex items-baseline justify-between mb-2">
+        <h3 className="text-sm font-semibold text-foreground">Performance</h3>
+        <span className="text-xs text-muted-foreground">
+          {latest ? `${(1000 / latest.frameMs).toFixed(0)} fps` : '—'}
+        </span>
+      </div>
+
+      <p className="text-xs text-muted-foreground mb-1">
+        Time per frame (ms){latest && ` • physics ${latest.physicsMs.toFixed(1)}, render ${latest.renderMs.toFixed(1)}`}
+      </p>
+      <ChartContainer config={timingConfig} className="aspect-auto h-28 w-full">
+        <LineChart data={points} margin={{ top: 4, right: 4, bottom: 0, left: -24 }}>
+          <CartesianGrid vertical={false} />
+          <XAxis dataKey="time" hide />
+          <YAxis tickLine={false} axisLine={false} width={48} />
+          <ChartTooltip content={<ChartTooltipContent hideLabel />} />
+          {Object.keys(timingConfig).map((key) => (
+            <Line key={key} dataKey={key} stroke={`var(--color-${key})`} dot={false} strokeWidth={1.5} isAnimationActive={false} />
+          ))}
+        </LineChart>
+      </ChartContainer>
+
+      <p className="text-xs text-muted-foreground mt-3 mb-1">
+        Workload{latest && ` • ${latest.particleCount} particles, ${latest.neighborPairs} neighbour pairs`}
+      </p>
+      <ChartContainer config={countConfig} className="aspect-auto h-28 w-full">
+        <LineChart data={points} margin={{ top: 4, right: 4, bottom: 0, left: -24 }}>
+          <CartesianGrid vertical={false} />
+          <XAxis dataKey="time" hide />
+          <YAxis yAxisId="particles" tickLine={false} axisLine={false} width={48} />
+          <YAxis yAxisId="pairs" orientation="right" hide />
+          <ChartTooltip content={<ChartTooltipContent hideLabel />} />
+          <Line yAxisId="particles" dataKey="particleCount" stroke="var(--color-particleCount)" dot={false} strokeWidth={1.5} isAnimationActive={false} />
+          <Line yAxisId="pairs" dataKey="neighborPairs" stroke="var(--color-neighborPairs)" dot={false} strokeWidth={1.5} isAnimationActive={false} />
+        </LineChart>
+      </ChartContainer>
+    </div>
+  );
+}
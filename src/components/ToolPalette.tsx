@@ -0,0 +1,43 @@
+import type { LucideIcon } from 'lucide-react';
+import { Eraser, Expand, Magnet, Move, RotateCcw, RotateCw, Snowflake, Sparkles } from 'lucide-react';
+import { TOOLS, type ToolId } from '@/lib/fluid/tools';
+import { Button } from '@/components/ui/button';
+
+const TOOL_ICONS: Record<ToolId, LucideIcon> = {
+  repel: Expand,
+  attract: Magnet,
+  vortexCw: RotateCw,
+  vortexCcw: RotateCcw,
+  drag: Move,
+  emit: Sparkles,
+  erase: Eraser,
+  freeze: Snowflake,
+};
+
+interface ToolPaletteProps {
+  tool: ToolId;
+  onSelect: (tool: ToolId) => void;
+}
+
+export function ToolPalette({ tool, onSelect }: ToolPaletteProps) {
+  return (
+    <div className="flex items-center gap-1 p-1 rounded-lg bg-card/80 backdrop-blur-md border border-border/50">
+      {TOOLS.map(({ id, label, shortcut }) => {
+        const Icon = TOOL_ICONS[id];
+        return (
+          <Button
+            key={id}
+            variant={tool === id ? "secondary" : "ghost"}
+            size="icon"
+            title={`${label} (${shortcut})`}
+            aria-label={label}
+            aria-pressed={tool === id}
+            onClick={() => onSelect(id)}
+          >
+            <Icon className="w-4 h-4" />
+          </Button>
+        );
+      })}
+    </div>
+  );
+}
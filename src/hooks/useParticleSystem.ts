@@ -1,253 +1,258 @@
-import { useRef, useCallback, useEffect } from 'react';
-
-export interface Particle {
-  x: number;
-  y: number;
-  vx: number;
-  vy: number;
-  radius: number;
-  color: string;
-  alpha: number;
-  life: number;
-  maxLife: number;
+import { useRef, useCallback, useEffect, useState } from 'react';
+import { ParticleEngine, type ParticleEngineOptions, type HandPosition, type FrameStats } from '@/lib/fluid/particleEngine';
+import { EngineWorkerClient, supportsOffscreenCanvas } from '@/lib/fluid/engineWorkerClient';
+import { QualityController, QUALITY_TIERS, DEFAULT_QUALITY_TIER, type QualityTier } from '@/lib/fluid/qualityController';
+import { createRenderer } from '@/lib/fluid/createRenderer';
+import { frameElapsed, runFrame } from '@/lib/fluid/frameLoop';
+import type { ParticleRenderer, RendererKind } from '@/lib/fluid/renderer';
+
+export type { Particle, HandPosition, InteractorMode, SolverMode, ResizeMode, LinkColorMode, FrameStats } from '@/lib/fluid/particleEngine';
+export type { QualityTier } from '@/lib/fluid/qualityController';
+export type { RendererKind } from '@/lib/fluid/renderer';
+
+export type ParticleSystemOptions = Partial<
+  Omit<ParticleEngineOptions, 'particleCount' | 'interactionRadius' | 'interactionStrength'>
+> & {
+  // Run the simulation in a worker via OffscreenCanvas when the browser allows it.
+  // Read once when the loop first starts, since a transferred canvas can't come back.
+  offscreen?: boolean;
+  // Frame rate the adaptive quality aims for; 0 keeps full quality
+  targetFps?: number;
+  // Drawing backend, read when the loop starts. A canvas keeps the first
+  // context type it hands out, so switching needs a fresh canvas element.
+  renderer?: RendererKind;
+  // Canvas pixels per device pixel: below 1 trades sharpness for speed,
+  // above 1 supersamples. Physics always runs in CSS pixels.
+  renderScale?: number;
+};
+
+// Canvas pixels per CSS px
+function pixelRatio(renderScale: number) {
+  return (window.devicePixelRatio || 1) * renderScale;
 }
 
-export interface HandPosition {
-  x: number;
-  y: number;
-  isOpen: boolean;
-}
-
-const PARTICLE_COLORS = [
-  'hsl(185, 100%, 55%)',  // cyan
-  'hsl(210, 100%, 60%)',  // blue
-  'hsl(270, 80%, 65%)',   // purple
-  'hsl(195, 100%, 50%)',  // light blue
-  'hsl(240, 80%, 60%)',   // indigo
-];
-
 export function useParticleSystem(
   canvasRef: React.RefObject<HTMLCanvasElement>,
   particleCount: number = 500,
   interactionRadius: number = 150,
-  interactionStrength: number = 0.5
+  interactionStrength: number = 0.5,
+  options: ParticleSystemOptions = {}
 ) {
-  const particlesRef = useRef<Particle[]>([]);
-  const handPositionRef = useRef<HandPosition | null>(null);
+  const { offscreen = false, targetFps = 0, renderer = 'canvas2d', renderScale = 1, ...engineOptions } = options;
+  const engineRef = useRef<ParticleEngine | null>(null);
+  const workerRef = useRef<EngineWorkerClient | null>(null);
+  // The backend drawing on the main thread and the kind asked for, which a fallback's `kind` won't match
+  const rendererRef = useRef<{ requested: RendererKind; renderer: ParticleRenderer } | null>(null);
+  const rendererKindRef = useRef(renderer);
+  // World size in CSS px, as last passed to resize
+  const sizeRef = useRef({ width: 0, height: 0 });
+  const renderScaleRef = useRef(renderScale);
   const animationFrameRef = useRef<number>(0);
+  const lastTimeRef = useRef<number | null>(null);
+  const offscreenRef = useRef(offscreen);
+  const optionsRef = useRef<Partial<ParticleEngineOptions>>({});
+  const qualityRef = useRef(new QualityController());
+  const targetFpsRef = useRef(targetFps);
+  const statsListenersRef = useRef(new Set<(stats: FrameStats) => void>());
+  const [qualityTier, setQualityTier] = useState<QualityTier>(QUALITY_TIERS[DEFAULT_QUALITY_TIER]);
+  const [activeRenderer, setActiveRenderer] = useState<RendererKind>(renderer);
+  const [devicePixelRatio, setDevicePixelRatio] = useState(() => window.devicePixelRatio || 1);
+
+  offscreenRef.current = offscreen;
+  targetFpsRef.current = targetFps;
+  rendererKindRef.current = renderer;
+  renderScaleRef.current = renderScale;
+  optionsRef.current = { ...engineOptions, particleCount, interactionRadius, interactionStrength };
+
+  if (!engineRef.current) {
+    engineRef.current = new ParticleEngine(optionsRef.current);
+  }
+
+  // Options are pushed into the engine every render; it only keeps the values
+  useEffect(() => {
+    engineRef.current?.setOptions(optionsRef.current);
+    workerRef.current?.setOptions(optionsRef.current);
+  });
+
+  const applyQualityTier = useCallback((tier: QualityTier | null) => {
+    if (!tier) return;
+    engineRef.current?.setQuality(tier);
+    setQualityTier(tier);
+  }, []);
 
-  const initParticles = useCallback((width: number, height: number) => {
-    const particles: Particle[] = [];
-    for (let i = 0; i < particleCount; i++) {
-      particles.push({
-        x: Math.random() * width,
-        y: Math.random() * height,
-        vx: (Math.random() - 0.5) * 2,
-        vy: (Math.random() - 0.5) * 2,
-        radius: Math.random() * 3 + 1,
-        color: PARTICLE_COLORS[Math.floor(Math.random() * PARTICLE_COLORS.length)],
-        alpha: Math.random() * 0.5 + 0.5,
-        life: Math.random() * 100,
-        maxLife: 100 + Math.random() * 100,
-      });
-    }
-    particlesRef.current = particles;
-  }, [particleCount]);
-
-  const updateParticles = useCallback((width: number, height: number) => {
-    const particles = particlesRef.current;
-    const hand = handPositionRef.current;
-
-    particles.forEach((particle) => {
-      // Apply hand interaction
-      if (hand) {
-        const dx = particle.x - hand.x;
-        const dy = particle.y - hand.y;
-        const distance = Math.sqrt(dx * dx + dy * dy);
-
-        if (distance < interactionRadius && distance > 0) {
-          const force = (interactionRadius - distance) / interactionRadius;
-          const angle = Math.atan2(dy, dx);
-          
-          // Attract when hand is closed, repel when open
-          const direction = hand.isOpen ? 1 : -1;
-          
-          particle.vx += Math.cos(angle) * force * interactionStrength * direction;
-          particle.vy += Math.sin(angle) * force * interactionStrength * direction;
-        }
-      }
-
-      // Apply fluid dynamics (simplified SPH-like behavior)
-      particles.forEach((other) => {
-        if (particle === other) return;
-        
-        const dx = other.x - particle.x;
-        const dy = other.y - particle.y;
-        const distance = Math.sqrt(dx * dx + dy * dy);
-        
-        // Separation force
-        if (distance < 20 && distance > 0) {
-          const force = (20 - distance) / 20 * 0.05;
-          particle.vx -= (dx / distance) * force;
-          particle.vy -= (dy / distance) * force;
-        }
-      });
-
-      // Apply velocity damping (gentler for floaty feel)
-      particle.vx *= 0.995;
-      particle.vy *= 0.995;
-
-      // Floating motion - gentle random drift instead of gravity
-      particle.vx += (Math.random() - 0.5) * 0.05;
-      particle.vy += (Math.random() - 0.5) * 0.05;
-
-      // Update position
-      particle.x += particle.vx;
-      particle.y += particle.vy;
-
-      // Boundary collision with soft bounce
-      if (particle.x < 0) {
-        particle.x = 0;
-        particle.vx *= -0.5;
-      }
-      if (particle.x > width) {
-        particle.x = width;
-        particle.vx *= -0.5;
-      }
-      if (particle.y < 0) {
-        particle.y = 0;
-        particle.vy *= -0.5;
-      }
-      if (particle.y > height) {
-        particle.y = height;
-        particle.vy *= -0.5;
-      }
-
-      // Update life
-      particle.life += 1;
-      if (particle.life > particle.maxLife) {
-        particle.life = 0;
-        particle.alpha = Math.random() * 0.5 + 0.5;
-      }
-    });
-  }, [interactionRadius, interactionStrength]);
-
-  const renderParticles = useCallback((ctx: CanvasRenderingContext2D, width: number, height: number) => {
-    // Clear with trail effect
-    ctx.fillStyle = 'rgba(8, 12, 18, 0.15)';
-    ctx.fillRect(0, 0, width, height);
-
-    const particles = particlesRef.current;
-    const hand = handPositionRef.current;
-
-    // Draw connections between nearby particles
-    ctx.strokeStyle = 'rgba(0, 210, 255, 0.1)';
-    ctx.lineWidth = 0.5;
-    
-    for (let i = 0; i < particles.length; i++) {
-      for (let j = i + 1; j < particles.length; j++) {
-        const dx = particles[i].x - particles[j].x;
-        const dy = particles[i].y - particles[j].y;
-        const distance = Math.sqrt(dx * dx + dy * dy);
-
-        if (distance < 50) {
-          ctx.beginPath();
-          ctx.moveTo(particles[i].x, particles[j].y);
-          ctx.lineTo(particles[j].x, particles[j].y);
-          ctx.globalAlpha = (50 - distance) / 50 * 0.3;
-          ctx.stroke();
-        }
-      }
+  useEffect(() => {
+    if (workerRef.current) {
+      workerRef.current.setTargetFps(targetFps);
+    } else {
+      applyQualityTier(qualityRef.current.setTargetFps(targetFps));
     }
+  }, [targetFps, applyQualityTier]);
 
-    // Draw particles
-    particles.forEach((particle) => {
-      const lifeRatio = Math.sin((particle.life / particle.maxLife) * Math.PI);
-      
-      // Glow effect
-      const gradient = ctx.createRadialGradient(
-        particle.x, particle.y, 0,
-        particle.x, particle.y, particle.radius * 3
-      );
-      gradient.addColorStop(0, particle.color.replace(')', `, ${particle.alpha * lifeRatio})`).replace('hsl', 'hsla'));
-      gradient.addColorStop(1, 'transparent');
-
-      ctx.beginPath();
-      ctx.arc(particle.x, particle.y, particle.radius * 3, 0, Math.PI * 2);
-      ctx.fillStyle = gradient;
-      ctx.globalAlpha = 1;
-      ctx.fill();
-
-      // Core particle
-      ctx.beginPath();
-      ctx.arc(particle.x, particle.y, particle.radius, 0, Math.PI * 2);
-      ctx.fillStyle = particle.color;
-      ctx.globalAlpha = particle.alpha * lifeRatio;
-      ctx.fill();
-    });
-
-    // Draw hand indicator
-    if (hand) {
-      const gradient = ctx.createRadialGradient(
-        hand.x, hand.y, 0,
-        hand.x, hand.y, interactionRadius
-      );
-      gradient.addColorStop(0, hand.isOpen ? 'rgba(0, 255, 200, 0.3)' : 'rgba(255, 100, 200, 0.3)');
-      gradient.addColorStop(1, 'transparent');
-
-      ctx.beginPath();
-      ctx.arc(hand.x, hand.y, interactionRadius, 0, Math.PI * 2);
-      ctx.fillStyle = gradient;
-      ctx.globalAlpha = 0.5;
-      ctx.fill();
-
-      // Hand center dot
-      ctx.beginPath();
-      ctx.arc(hand.x, hand.y, 8, 0, Math.PI * 2);
-      ctx.fillStyle = hand.isOpen ? 'hsl(175, 100%, 50%)' : 'hsl(320, 80%, 60%)';
-      ctx.globalAlpha = 1;
-      ctx.fill();
+  const emitStats = useCallback((stats: FrameStats) => {
+    statsListenersRef.current.forEach((listener) => listener(stats));
+  }, []);
+
+  const animate = useCallback((time: number = performance.now()) => {
+    const canvas = canvasRef.current;
+    const engine = engineRef.current;
+    if (!canvas || !engine) return;
+
+    // (Re)create the backend for a new canvas or a different choice
+    let current = rendererRef.current;
+    if (!current || current.renderer.surface !== canvas || current.requested !== rendererKindRef.current) {
+      current?.renderer.dispose();
+      const requested = rendererKindRef.current;
+      current = { requested, renderer: createRenderer(requested, canvas) };
+      rendererRef.current = current;
+      setActiveRenderer(current.renderer.kind);
     }
 
-    ctx.globalAlpha = 1;
-  }, [interactionRadius]);
+    const elapsed = frameElapsed(lastTimeRef.current, time);
+    lastTimeRef.current = time;
 
-  const animate = useCallback(() => {
+    const onStats = statsListenersRef.current.size > 0 ? emitStats : null;
+    applyQualityTier(runFrame(engine, current.renderer, qualityRef.current, elapsed, onStats));
+
+    animationFrameRef.current = requestAnimationFrame(animate);
+  }, [canvasRef, applyQualityTier, emitStats]);
+
+  // The worker, if it owns the canvas currently mounted
+  const currentWorker = useCallback(() => {
+    const worker = workerRef.current;
+    return worker && worker.canvas === canvasRef.current ? worker : null;
+  }, [canvasRef]);
+
+  // Hands the canvas to a worker when the loop starts, if asked to and supported.
+  // SVG needs the DOM, so it always runs here.
+  const connectWorker = useCallback(() => {
     const canvas = canvasRef.current;
-    if (!canvas) return;
+    if (currentWorker()) return workerRef.current;
 
-    const ctx = canvas.getContext('2d');
-    if (!ctx) return;
+    workerRef.current?.dispose();
+    workerRef.current = null;
+    const kind = rendererKindRef.current;
+    if (!offscreenRef.current || kind === 'svg' || !canvas || !supportsOffscreenCanvas(canvas)) {
+      return null;
+    }
 
-    const { width, height } = canvas;
+    // Like reinitialize, the canvas's own size is the world until resize is called
+    const size = sizeRef.current.width > 0
+      ? { ...sizeRef.current, pixelRatio: pixelRatio(renderScaleRef.current) }
+      : { width: canvas.width, height: canvas.height, pixelRatio: 1 };
+    const worker = new EngineWorkerClient(canvas, kind, optionsRef.current, size);
+    worker.onQualityChange = setQualityTier;
+    worker.onRenderer = setActiveRenderer;
+    worker.onStats = emitStats;
+    worker.setTargetFps(targetFpsRef.current);
+    worker.setStatsEnabled(statsListenersRef.current.size > 0);
+    workerRef.current = worker;
+    return worker;
+  }, [canvasRef, currentWorker, emitStats]);
+
+  /**
+   * Calls `listener` with timings and counts after every frame, outside of
+   * React so nothing re-renders. Returns the unsubscribe function.
+   */
+  const subscribeStats = useCallback((listener: (stats: FrameStats) => void) => {
+    const listeners = statsListenersRef.current;
+    listeners.add(listener);
+    workerRef.current?.setStatsEnabled(true);
 
-    updateParticles(width, height);
-    renderParticles(ctx, width, height);
+    return () => {
+      listeners.delete(listener);
+      workerRef.current?.setStatsEnabled(listeners.size > 0);
+    };
+  }, []);
 
-    animationFrameRef.current = requestAnimationFrame(animate);
-  }, [canvasRef, updateParticles, renderParticles]);
+  // Every point pushing the fluid, e.g. one per finger on the screen
+  const setInteractors = useCallback((interactors: HandPosition[]) => {
+    const worker = currentWorker();
+    if (worker) {
+      worker.setInteractors(interactors);
+    } else {
+      engineRef.current?.setInteractors(interactors);
+    }
+  }, [currentWorker]);
 
   const setHandPosition = useCallback((position: HandPosition | null) => {
-    handPositionRef.current = position;
-  }, []);
+    setInteractors(position ? [position] : []);
+  }, [setInteractors]);
 
-  const start = useCallback(() => {
+  const reinitialize = useCallback(() => {
     const canvas = canvasRef.current;
-    if (!canvas) return;
+    const worker = currentWorker();
+    if (worker) {
+      worker.init();
+    } else if (canvas) {
+      // Without a resize call yet, the canvas's own size is the world
+      const { width, height } = sizeRef.current.width > 0 ? sizeRef.current : canvas;
+      engineRef.current?.init(width, height);
+    }
+  }, [canvasRef, currentWorker]);
+
+  /**
+   * Sets the world size in CSS px, normally the canvas's layout size. The
+   * canvas gets device pixels times the render scale per world unit. Once
+   * the canvas belongs to a worker its size can only be set from there.
+   */
+  const resize = useCallback((width: number, height: number) => {
+    // Hidden containers measure 0 × 0; keep the last real size instead
+    if (!(width > 0 && height > 0)) return;
+
+    sizeRef.current = { width, height };
+    const ratio = pixelRatio(renderScaleRef.current);
+    const canvas = canvasRef.current;
+    const worker = currentWorker();
+    if (worker) {
+      worker.resize(width, height, ratio);
+    } else if (canvas) {
+      canvas.width = Math.max(1, Math.round(width * ratio));
+      canvas.height = Math.max(1, Math.round(height * ratio));
+      engineRef.current?.resize(width, height);
+    }
+  }, [canvasRef, currentWorker]);
+
+  // Re-derive the canvas size when the render scale or the screen's density
+  // changes, e.g. when the window moves to another monitor
+  useEffect(() => {
+    const { width, height } = sizeRef.current;
+    if (width > 0) resize(width, height);
 
-    initParticles(canvas.width, canvas.height);
-    animate();
-  }, [canvasRef, initParticles, animate]);
+    const media = window.matchMedia(`(resolution: ${devicePixelRatio}dppx)`);
+    const update = () => setDevicePixelRatio(window.devicePixelRatio || 1);
+    media.addEventListener('change', update);
+    return () => media.removeEventListener('change', update);
+  }, [renderScale, devicePixelRatio, resize]);
+
+  const start = useCallback(() => {
+    const worker = connectWorker();
+    reinitialize();
+    if (worker) {
+      // The worker draws now, so drop any backend left from a main-thread run
+      rendererRef.current?.renderer.dispose();
+      rendererRef.current = null;
+      worker.start();
+    } else {
+      animate();
+    }
+  }, [connectWorker, reinitialize, animate]);
 
   const stop = useCallback(() => {
+    workerRef.current?.stop();
     if (animationFrameRef.current) {
       cancelAnimationFrame(animationFrameRef.current);
     }
+    lastTimeRef.current = null;
   }, []);
 
   useEffect(() => {
     return () => {
       stop();
+      engineRef.current?.dispose();
+      rendererRef.current?.renderer.dispose();
+      rendererRef.current = null;
+      workerRef.current?.dispose();
+      workerRef.current = null;
     };
   }, [stop]);
 
@@ -255,11 +260,11 @@ export function useParticleSystem(
     start,
     stop,
     setHandPosition,
-    reinitialize: () => {
-      const canvas = canvasRef.current;
-      if (canvas) {
-        initParticles(canvas.width, canvas.height);
-      }
-    },
+    setInteractors,
+    reinitialize,
+    resize,
+    qualityTier,
+    activeRenderer,
+    subscribeStats,
   };
 }
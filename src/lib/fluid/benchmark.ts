@@ -0,0 +1,101 @@
+import { ParticleEngine, type ParticleEngineOptions, type SolverMode } from './particleEngine';
+
+// One column of the benchmark matrix: engine options under a name for the report
+export interface BenchmarkScenario {
+  name: string;
+  options: Partial<ParticleEngineOptions>;
+}
+
+export interface BenchmarkConfig {
+  scenarios: BenchmarkScenario[];
+  particleCounts: number[];
+  width: number;
+  height: number;
+  // Untimed steps first, so caches, JIT and buffer growth settle
+  warmupSteps: number;
+  steps: number;
+  seed: number;
+}
+
+export interface BenchmarkResult {
+  scenario: string;
+  particleCount: number;
+  steps: number;
+  stepsPerSecond: number;
+  meanMs: number;
+  p50Ms: number;
+  p90Ms: number;
+  p99Ms: number;
+  maxMs: number;
+}
+
+const SOLVERS: SolverMode[] = ['floaty', 'sph', 'pbf', 'flip', 'stable'];
+
+export const DEFAULT_BENCHMARK_CONFIG: BenchmarkConfig = {
+  scenarios: SOLVERS.map((solver) => ({ name: solver, options: { solver } })),
+  particleCounts: [250, 500, 1000, 2000],
+  width: 1280,
+  height: 720,
+  warmupSteps: 30,
+  steps: 300,
+  seed: 1,
+};
+
+/**
+ * Times single physics steps of a freshly seeded engine, with one hand
+ * circling the middle of the area so interaction code is exercised too.
+ * Nothing is drawn; only `step` is measured.
+ */
+export function runBenchmarkCase(scenario: BenchmarkScenario, particleCount: number, config: BenchmarkConfig): BenchmarkResult {
+  const { width, height, warmupSteps, steps, seed } = config;
+  const engine = new ParticleEngine({ ...scenario.options, particleCount, seed });
+  engine.init(width, height);
+
+  const durations = new Float64Array(steps);
+  for (let i = -warmupSteps; i < steps; i++) {
+    const angle = i * 0.05;
+    engine.setInteractors([{
+      x: width / 2 + Math.cos(angle) * width / 4,
+      y: height / 2 + Math.sin(angle) * height / 4,
+      isOpen: i % 240 < 120,
+    }]);
+
+    const start = performance.now();
+    engine.step(1);
+    if (i >= 0) durations[i] = performance.now() - start;
+  }
+  engine.dispose();
+
+  const total = durations.reduce((sum, duration) => sum + duration, 0);
+  durations.sort();
+  return {
+    scenario: scenario.name,
+    particleCount,
+    steps,
+    stepsPerSecond: steps / (total / 1000),
+    meanMs: total / steps,
+    p50Ms: percentile(durations, 0.5),
+    p90Ms: percentile(durations, 0.9),
+    p99Ms: percentile(durations, 0.99),
+    maxMs: durations[steps - 1],
+  };
+}
+
+/** Every scenario at every particle count, in order. `onResult` reports progress. */
+export function runBenchmark(config: BenchmarkConfig, onResult?: (result: BenchmarkResult) => void) {
+  const results: BenchmarkResult[] = [];
+  for (const scenario of config.scenarios) {
+    for (const particleCount of config.particleCounts) {
+      const result = runBenchmarkCase(scenario, particleCount, config);
+      results.push(result);
+      onResult?.(result);
+    }
+  }
+  return results;
+}
+
+// Nearest-rank percentile of an ascending array
+function percentile(sorted: ArrayLike<number>, fraction: number) {
+  const rank = Math.ceil(fraction * sorted.length) - 1;
+  return sorted[Math.min(Math.max(rank, 0), sorted.length - 1)];
+}
@@ -0,0 +1,22 @@
+import type { FluidBuffers } from './types';
+
+// Boundary collision with soft bounce
+export function constrainToBounds(particles: FluidBuffers, index: number, width: number, height: number) {
+  const { x, y, vx, vy } = particles;
+  if (x[index] < 0) {
+    x[index] = 0;
+    vx[index] *= -0.5;
+  }
+  if (x[index] > width) {
+    x[index] = width;
+    vx[index] *= -0.5;
+  }
+  if (y[index] < 0) {
+    y[index] = 0;
+    vy[index] *= -0.5;
+  }
+  if (y[index] > height) {
+    y[index] = height;
+    vy[index] *= -0.5;
+  }
+}
@@ -0,0 +1,142 @@
+import { GlowSpriteCache } from './glowSprites';
+import { LinkLayer, LINK_WIDTH } from './links';
+import { SurfaceMesher } from './surface';
+import {
+  BACKGROUND_RGB,
+  HAND_GLOW_OPACITY,
+  HAND_DOT_RADIUS,
+  handDotColor,
+  handGlowColor,
+  particleOpacity,
+  trailFadeOpacity,
+  type ParticleRenderer,
+  type RenderFrame,
+  type RenderSurface,
+  type RenderingContext,
+} from './renderer';
+
+/** The original look: sprite-blitted particles over a fading trail, on a 2D context. */
+export class Canvas2DRenderer implements ParticleRenderer {
+  readonly kind = 'canvas2d';
+  readonly surface: RenderSurface;
+
+  private ctx: RenderingContext;
+  private sprites = new GlowSpriteCache();
+  private links = new LinkLayer();
+  private liquid = new SurfaceMesher();
+
+  constructor(surface: RenderSurface) {
+    const ctx = surface.getContext('2d') as RenderingContext | null;
+    if (!ctx) throw new Error('Canvas 2D context unavailable');
+
+    this.surface = surface;
+    this.ctx = ctx;
+  }
+
+  render(frame: RenderFrame) {
+    const { ctx } = this;
+    const { store, x, y, width, height, interactors, interactionRadius } = frame;
+    const { count } = store;
+
+    // Draw in world units whatever the canvas's pixel density
+    const pixelRatio = width > 0 ? this.surface.width / width : 1;
+    ctx.setTransform(pixelRatio, 0, 0, pixelRatio, 0, 0);
+
+    // Clear with trail effect, fading the same amount per second at any refresh rate
+    ctx.fillStyle = `rgba(${BACKGROUND_RGB.join(', ')}, ${trailFadeOpacity(frame.elapsedFrames)})`;
+    ctx.fillRect(0, 0, width, height);
+
+    // Draw connections between nearby particles
+    const batches = this.links.build(store, frame.grid, x, y, frame.links, frame.linkDistanceScale, frame.colors);
+    ctx.lineWidth = LINK_WIDTH;
+    for (const batch of batches) {
+      ctx.strokeStyle = batch.color;
+      ctx.globalAlpha = batch.opacity;
+      ctx.beginPath();
+      for (let k = 0; k < batch.length; k += 4) {
+        ctx.moveTo(batch.coords[k], batch.coords[k + 1]);
+        ctx.lineTo(batch.coords[k + 2], batch.coords[k + 3]);
+      }
+      ctx.stroke();
+    }
+
+    if (frame.surface.enabled) {
+      this.drawSurface(frame);
+    } else {
+      // Draw particles from cached sprites; the glow and core share one opacity
+      this.sprites.setPalette(frame.colors.palette);
+      this.sprites.setScale(pixelRatio);
+      for (let i = 0; i < count; i++) {
+        const opacity = particleOpacity(store, i);
+        if (!(opacity > 0)) continue;
+
+        const sprite = this.sprites.get(frame.colors.colorIndex[i], store.radius[i]);
+        ctx.globalAlpha = opacity;
+        const { glowOffset, coreOffset } = sprite;
+        if (frame.glow) ctx.drawImage(sprite.glow, x[i] - glowOffset, y[i] - glowOffset, glowOffset * 2, glowOffset * 2);
+        ctx.drawImage(sprite.core, x[i] - coreOffset, y[i] - coreOffset, coreOffset * 2, coreOffset * 2);
+      }
+    }
+
+    // Draw hand indicators
+    for (const hand of interactors) {
+      const gradient = ctx.createRadialGradient(
+        hand.x, hand.y, 0,
+        hand.x, hand.y, interactionRadius
+      );
+      gradient.addColorStop(0, handGlowColor(hand));
+      gradient.addColorStop(1, 'transparent');
+
+      ctx.beginPath();
+      ctx.arc(hand.x, hand.y, interactionRadius, 0, Math.PI * 2);
+      ctx.fillStyle = gradient;
+      ctx.globalAlpha = HAND_GLOW_OPACITY;
+      ctx.fill();
+
+      // Hand center dot
+      ctx.beginPath();
+      ctx.arc(hand.x, hand.y, HAND_DOT_RADIUS, 0, Math.PI * 2);
+      ctx.fillStyle = handDotColor(hand);
+      ctx.globalAlpha = 1;
+      ctx.fill();
+    }
+
+    ctx.globalAlpha = 1;
+  }
+
+  dispose() {
+    this.sprites.clear();
+  }
+
+  // One path for the whole fill, so the cells join without seams
+  private drawSurface(frame: RenderFrame) {
+    const { ctx } = this;
+    const params = frame.surface;
+    const { triangles, triangleLength, edges, edgeLength } = this.liquid.build(
+      frame.store, frame.x, frame.y, frame.width, frame.height, params
+    );
+
+    ctx.globalAlpha = 1;
+    ctx.fillStyle = params.fillColor;
+    ctx.beginPath();
+    for (let k = 0; k < triangleLength; k += 6) {
+      ctx.moveTo(triangles[k], triangles[k + 1]);
+      ctx.lineTo(triangles[k + 2], triangles[k + 3]);
+      ctx.lineTo(triangles[k + 4], triangles[k + 5]);
+      ctx.closePath();
+    }
+    ctx.fill();
+
+    if (params.edgeWidth <= 0) return;
+    ctx.strokeStyle = params.edgeColor;
+    ctx.lineWidth = params.edgeWidth;
+    ctx.lineCap = 'round';
+    ctx.beginPath();
+    for (let k = 0; k < edgeLength; k += 4) {
+      ctx.moveTo(edges[k], edges[k + 1]);
+      ctx.lineTo(edges[k + 2], edges[k + 3]);
+    }
+    ctx.stroke();
+    ctx.lineCap = 'butt';
+  }
+}
@@ -0,0 +1,60 @@
+// Straight (not premultiplied) colour with every channel in 0..1
+export type Rgba = [number, number, number, number];
+
+/**
+ * Parses the CSS colour forms the simulation uses: `#rgb`, `#rrggbb`,
+ * `rgb()`/`rgba()` and `hsl()`/`hsla()`. Anything else comes back as
+ * opaque white rather than throwing, so a bad palette entry stays visible.
+ */
+export function parseColor(color: string): Rgba {
+  const value = color.trim().toLowerCase();
+
+  if (value.startsWith('#')) {
+    const hex = value.length === 4
+      ? value.slice(1).split('').map((digit) => digit + digit).join('')
+      : value.slice(1, 7);
+    const number = parseInt(hex, 16);
+    if (hex.length === 6 && !Number.isNaN(number)) {
+      return [(number >> 16 & 255) / 255, (number >> 8 & 255) / 255, (number & 255) / 255, 1];
+    }
+  }
+
+  const match = /^(rgba?|hsla?)\(([^)]*)\)$/.exec(value);
+  if (match) {
+    const parts = match[2].split(/[\s,/]+/).filter(Boolean).map((part) => parseFloat(part));
+    const alpha = parts.length > 3 ? parts[3] : 1;
+    if (match[1].startsWith('rgb')) {
+      return [parts[0] / 255, parts[1] / 255, parts[2] / 255, alpha];
+    }
+    return [...hslToRgb(parts[0], parts[1] / 100, parts[2] / 100), alpha];
+  }
+
+  return [1, 1, 1, 1];
+}
+
+/**
+ * Writes a colour back out as CSS `rgba()`. Passing a caller's colour
+ * through `parseColor` and this leaves only digits, so the result is safe
+ * to put into markup.
+ */
+export function formatColor([r, g, b, a]: Rgba) {
+  const channel = (value: number) => Math.round(Math.min(Math.max(value, 0), 1) * 255) || 0;
+  const alpha = Math.round(Math.min(Math.max(a, 0), 1) * 1000) / 1000 || 0;
+  return `rgba(${channel(r)}, ${channel(g)}, ${channel(b)}, ${alpha})`;
+}
+
+function hslToRgb(hue: number, saturation: number, lightness: number): [number, number, number] {
+  const chroma = (1 - Math.abs(2 * lightness - 1)) * saturation;
+  const sector = (((hue % 360) + 360) % 360) / 60;
+  const x = chroma * (1 - Math.abs((sector % 2) - 1));
+  const m = lightness - chroma / 2;
+
+  const [r, g, b] =
+    sector < 1 ? [chroma, x, 0] :
+    sector < 2 ? [x, chroma, 0] :
+    sector < 3 ? [0, chroma, x] :
+    sector < 4 ? [0, x, chroma] :
+    sector < 5 ? [x, 0, chroma] :
+    [chroma, 0, x];
+  return [r + m, g + m, b + m];
+}
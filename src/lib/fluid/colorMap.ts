@@ -0,0 +1,206 @@
+import { parseColor } from './color';
+import { poly6Coefficient } from './kernels';
+import type { HandPosition } from './particleEngine';
+import type { ParticleStore } from './particleStore';
+import type { ParticleColors } from './renderer';
+import type { SpatialHash } from './spatialHash';
+import type { SphParams } from './sph';
+
+// What decides a particle's colour; 'none' keeps the colour it spawned with
+export type ColorScalar = 'none' | 'speed' | 'density' | 'pressure' | 'life' | 'handDistance';
+
+export type ColorMapName = 'theme' | 'viridis' | 'magma' | 'custom';
+
+export interface ColorMapParams {
+  scalar: ColorScalar;
+  colorMap: ColorMapName;
+  // Low to high, used when `colorMap` is 'custom'
+  customStops: string[];
+}
+
+export const DEFAULT_COLOR_MAP_PARAMS: ColorMapParams = {
+  scalar: 'none',
+  colorMap: 'theme',
+  customStops: ['#0b1d3a', '#00d2ff', '#ffffff'],
+};
+
+export const COLOR_SCALARS: Record<ColorScalar, { label: string; unit: string }> = {
+  none: { label: 'None', unit: '' },
+  speed: { label: 'Speed', unit: 'px/frame' },
+  density: { label: 'Density', unit: '× rest' },
+  pressure: { label: 'Pressure', unit: '' },
+  life: { label: 'Age', unit: '% of life' },
+  handDistance: { label: 'Hand Distance', unit: 'px' },
+};
+
+// Low to high
+export const COLOR_MAPS: Record<Exclude<ColorMapName, 'custom'>, string[]> = {
+  theme: ['hsl(185, 100%, 55%)', 'hsl(210, 100%, 60%)', 'hsl(270, 80%, 65%)'],
+  viridis: ['#440154', '#472d7b', '#3b528b', '#2c728e', '#21918c', '#28ae80', '#5ec962', '#addc30', '#fde725'],
+  magma: ['#000004', '#1c1044', '#4f127b', '#812581', '#b5367a', '#e55064', '#fb8761', '#fec287', '#fcfdbf'],
+};
+
+// Colours sampled along the map; particles snap to the nearest
+const PALETTE_STEPS = 64;
+// Share of the gap to this frame's min and max the auto range closes per frame
+const RANGE_SMOOTHING = 0.1;
+
+export function colorMapStops(params: ColorMapParams) {
+  const stops = params.colorMap === 'custom' ? params.customStops : COLOR_MAPS[params.colorMap];
+  return stops.length > 0 ? stops : COLOR_MAPS.theme;
+}
+
+/** Evenly spaced colours along the stops, blended in RGB. */
+export function sampleColorMap(stops: readonly string[], steps: number) {
+  const colors = stops.map(parseColor);
+  const palette: string[] = [];
+
+  for (let step = 0; step < steps; step++) {
+    const position = steps > 1 ? step / (steps - 1) * (colors.length - 1) : 0;
+    const index = Math.min(Math.floor(position), colors.length - 2);
+    const from = colors[Math.max(index, 0)];
+    const to = colors[Math.max(index + 1, 0)] ?? from;
+    const t = colors.length > 1 ? position - index : 0;
+    const channel = (c: number) => Math.round((from[c] + (to[c] - from[c]) * t) * 255);
+    palette.push(`rgb(${channel(0)}, ${channel(1)}, ${channel(2)})`);
+  }
+  return palette;
+}
+
+/**
+ * Colours particles by a per-particle quantity instead of their spawn
+ * colour. Density and pressure use the SPH kernel and equation of state
+ * whatever solver runs, so they read the same across modes. Speed,
+ * density and pressure span the range seen on screen, eased over a few
+ * frames so the legend doesn't flicker; age and hand distance have fixed
+ * ranges.
+ */
+export class ColorMapper {
+  readonly range = { min: 0, max: 0 };
+
+  private colorIndex = new Uint8Array(0);
+  private values = new Float32Array(0);
+  private palette: string[] = [];
+  private paletteKey = '';
+  private rangeScalar: ColorScalar = 'none';
+
+  /** The colours to draw this frame with. `grid` must index the store's current positions. */
+  update(
+    store: ParticleStore,
+    grid: SpatialHash,
+    interactors: HandPosition[],
+    interactionRadius: number,
+    params: ColorMapParams,
+    sph: SphParams
+  ): ParticleColors {
+    const { count } = store;
+    if (params.scalar === 'none' || count === 0) {
+      this.range.min = 0;
+      this.range.max = 0;
+      this.rangeScalar = 'none';
+      return store;
+    }
+
+    if (this.values.length < count) {
+      this.values = new Float32Array(store.capacity);
+      this.colorIndex = new Uint8Array(store.capacity);
+    }
+    this.syncPalette(colorMapStops(params));
+
+    const { values } = this;
+    let frameMin = Infinity;
+    let frameMax = -Infinity;
+    for (let i = 0; i < count; i++) {
+      const value = this.measure(store, i, params.scalar, grid, interactors, sph);
+      values[i] = value;
+      if (value < frameMin) frameMin = value;
+      if (value > frameMax) frameMax = value;
+    }
+    this.updateRange(params.scalar, frameMin, frameMax, interactionRadius);
+
+    const { min, max } = this.range;
+    const scale = max > min ? (PALETTE_STEPS - 1) / (max - min) : 0;
+    for (let i = 0; i < count; i++) {
+      const step = Math.round((values[i] - min) * scale);
+      // `!(step >= 0)` also catches NaN
+      this.colorIndex[i] = !(step >= 0) ? 0 : Math.min(step, PALETTE_STEPS - 1);
+    }
+
+    return { palette: this.palette, colorIndex: this.colorIndex };
+  }
+
+  private measure(
+    store: ParticleStore,
+    i: number,
+    scalar: ColorScalar,
+    grid: SpatialHash,
+    interactors: HandPosition[],
+    sph: SphParams
+  ) {
+    switch (scalar) {
+      case 'speed':
+        return Math.hypot(store.vx[i], store.vy[i]);
+      case 'density':
+        return this.density(store, i, grid, sph.smoothingRadius) / sph.restDensity;
+      case 'pressure':
+        return Math.max(0, sph.stiffness * (this.density(store, i, grid, sph.smoothingRadius) - sph.restDensity));
+      case 'life':
+        return store.life[i] / store.maxLife[i] * 100;
+      case 'handDistance': {
+        let nearest = Infinity;
+        for (const hand of interactors) {
+          nearest = Math.min(nearest, Math.hypot(store.x[i] - hand.x, store.y[i] - hand.y));
+        }
+        return nearest;
+      }
+      default:
+        return 0;
+    }
+  }
+
+  // Same poly6 sum and particle mass as the SPH solver
+  private density(store: ParticleStore, i: number, grid: SpatialHash, h: number) {
+    const h2 = h * h;
+    const mass = h2 / 4;
+    const poly6 = poly6Coefficient(h);
+    const px = store.x[i];
+    const py = store.y[i];
+    let rho = 0;
+    grid.query(px, py, h, (j) => {
+      const dx = store.x[j] - px;
+      const dy = store.y[j] - py;
+      const r2 = dx * dx + dy * dy;
+      if (r2 < h2) {
+        const w = h2 - r2;
+        rho += mass * poly6 * w * w * w;
+      }
+    });
+    return rho;
+  }
+
+  private updateRange(scalar: ColorScalar, frameMin: number, frameMax: number, interactionRadius: number) {
+    const { range } = this;
+    if (scalar === 'life') {
+      range.min = 0;
+      range.max = 100;
+    } else if (scalar === 'handDistance') {
+      range.min = 0;
+      range.max = interactionRadius * 2;
+    } else if (scalar !== this.rangeScalar || !Number.isFinite(range.min) || !Number.isFinite(range.max)) {
+      range.min = frameMin;
+      range.max = frameMax;
+    } else {
+      range.min += (frameMin - range.min) * RANGE_SMOOTHING;
+      range.max += (frameMax - range.max) * RANGE_SMOOTHING;
+    }
+    this.rangeScalar = scalar;
+  }
+
+  private syncPalette(stops: readonly string[]) {
+    const key = stops.join('|');
+    if (key === this.paletteKey) return;
+
+    this.paletteKey = key;
+    this.palette = sampleColorMap(stops, PALETTE_STEPS);
+  }
+}
@@ -0,0 +1,33 @@
+import { Canvas2DRenderer } from './canvasRenderer';
+import { WebGLRenderer } from './webglRenderer';
+import { SvgRenderer } from './svgRenderer';
+import type { ParticleRenderer, RendererKind, RenderSurface } from './renderer';
+
+/**
+ * Builds the requested backend for a canvas, falling back to Canvas2D when
+ * it can't start (no WebGL2, or no DOM for SVG). Check `kind` on the result
+ * to see what was actually created.
+ */
+export function createRenderer(kind: RendererKind, surface: RenderSurface): ParticleRenderer {
+  try {
+    if (kind === 'svg') return new SvgRenderer(surface);
+    // A canvas keeps the first context it hands out, so WebGL2 is tried on a
+    // throwaway canvas: a setup failing after the real one's context was
+    // taken would leave no way back to 2D
+    if (kind === 'webgl2') probeWebGL();
+  } catch (error) {
+    console.warn(`Falling back to Canvas2D rendering: ${(error as Error).message}`);
+    return new Canvas2DRenderer(surface);
+  }
+  return kind === 'webgl2' ? new WebGLRenderer(surface) : new Canvas2DRenderer(surface);
+}
+
+// Throws whatever a WebGLRenderer would, using a throwaway canvas
+function probeWebGL() {
+  const canvas = typeof OffscreenCanvas !== 'undefined'
+    ? new OffscreenCanvas(1, 1)
+    : typeof document !== 'undefined' ? document.createElement('canvas') : null;
+  if (!canvas) throw new Error('No canvas to test WebGL2 on');
+
+  new WebGLRenderer(canvas).dispose();
+}
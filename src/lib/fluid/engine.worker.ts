@@ -0,0 +1,104 @@
+import { ParticleEngine, type FrameStats } from './particleEngine';
+import { QualityController, type QualityTier } from './qualityController';
+import { createRenderer } from './createRenderer';
+import { frameElapsed, runFrame } from './frameLoop';
+import type { ParticleRenderer } from './renderer';
+import type { EngineWorkerEvent, EngineWorkerMessage, WorldSize } from './engineWorkerProtocol';
+
+// Runs a ParticleEngine against a canvas transferred from the page, so
+// physics and drawing stay off the main thread.
+
+let engine: ParticleEngine | null = null;
+const quality = new QualityController();
+let canvas: OffscreenCanvas | null = null;
+let renderer: ParticleRenderer | null = null;
+let frameHandle = 0;
+let lastTime: number | null = null;
+let running = false;
+let statsEnabled = false;
+
+// requestAnimationFrame is missing from workers in some browsers
+const scheduleFrame = (callback: (time: number) => void) =>
+  typeof requestAnimationFrame === 'function'
+    ? requestAnimationFrame(callback)
+    : self.setTimeout(() => callback(performance.now()), 1000 / 60);
+
+const cancelFrame = (handle: number) =>
+  typeof cancelAnimationFrame === 'function' ? cancelAnimationFrame(handle) : self.clearTimeout(handle);
+
+function animate(time: number) {
+  if (!running || !engine || !renderer) return;
+
+  const elapsed = frameElapsed(lastTime, time);
+  lastTime = time;
+
+  applyTier(runFrame(engine, renderer, quality, elapsed, statsEnabled ? postStats : null));
+  frameHandle = scheduleFrame(animate);
+}
+
+function applyTier(tier: QualityTier | null) {
+  if (!tier) return;
+
+  engine?.setQuality(tier);
+  postEvent({ type: 'quality', tier });
+}
+
+function applySize({ width, height, pixelRatio }: WorldSize) {
+  if (canvas) {
+    canvas.width = Math.max(1, Math.round(width * pixelRatio));
+    canvas.height = Math.max(1, Math.round(height * pixelRatio));
+  }
+  engine?.resize(width, height);
+}
+
+function postStats(stats: FrameStats) {
+  postEvent({ type: 'stats', stats });
+}
+
+function postEvent(event: EngineWorkerEvent) {
+  self.postMessage(event);
+}
+
+self.onmessage = (event: MessageEvent<EngineWorkerMessage>) => {
+  const message = event.data;
+
+  switch (message.type) {
+    case 'setup':
+      canvas = message.canvas;
+      renderer = createRenderer(message.renderer, canvas);
+      postEvent({ type: 'renderer', kind: renderer.kind });
+      engine = new ParticleEngine(message.options);
+      // The canvas arrives at its pixel size, which isn't the world size on HiDPI screens
+      applySize(message.size);
+      break;
+    case 'options':
+      engine?.setOptions(message.options);
+      break;
+    case 'resize':
+      applySize(message);
+      break;
+    case 'init':
+      engine?.init(engine.width, engine.height);
+      break;
+    case 'interactors':
+      engine?.setInteractors(message.interactors);
+      break;
+    case 'targetFps':
+      applyTier(quality.setTargetFps(message.targetFps));
+      break;
+    case 'stats':
+      statsEnabled = message.enabled;
+      break;
+    case 'start':
+      if (!running) {
+        running = true;
+        lastTime = null;
+        frameHandle = scheduleFrame(animate);
+      }
+      break;
+    case 'stop':
+      running = false;
+      cancelFrame(frameHandle);
+      break;
+  }
+};
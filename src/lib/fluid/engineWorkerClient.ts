@@ -0,0 +1,85 @@
+import type { FrameStats, HandPosition, ParticleEngineOptions } from './particleEngine';
+import type { QualityTier } from './qualityController';
+import type { RendererKind } from './renderer';
+import type { EngineWorkerEvent, EngineWorkerMessage, WorldSize } from './engineWorkerProtocol';
+
+export function supportsOffscreenCanvas(canvas: HTMLCanvasElement) {
+  return typeof Worker !== 'undefined' && typeof canvas.transferControlToOffscreen === 'function';
+}
+
+/**
+ * Main-thread handle on a ParticleEngine running in a worker. Owns the
+ * canvas from construction on: once transferred, the page can no longer
+ * size or draw into it, so every change goes through here.
+ */
+export class EngineWorkerClient {
+  // Called when the worker's adaptive quality settles on a new tier
+  onQualityChange: ((tier: QualityTier) => void) | null = null;
+  // Called once per worker frame while stats are enabled
+  onStats: ((stats: FrameStats) => void) | null = null;
+  // Called once the worker has created its renderer
+  onRenderer: ((kind: RendererKind) => void) | null = null;
+  readonly canvas: HTMLCanvasElement;
+
+  private worker: Worker;
+  private lastOptions = '';
+
+  // `size` is the world the engine starts with; the canvas takes it at once
+  constructor(canvas: HTMLCanvasElement, renderer: RendererKind, options: Partial<ParticleEngineOptions>, size: WorldSize) {
+    this.canvas = canvas;
+    const offscreen = canvas.transferControlToOffscreen();
+    this.worker = new Worker(new URL('./engine.worker.ts', import.meta.url), { type: 'module' });
+    this.worker.onmessage = (event: MessageEvent<EngineWorkerEvent>) => {
+      if (event.data.type === 'quality') this.onQualityChange?.(event.data.tier);
+      if (event.data.type === 'stats') this.onStats?.(event.data.stats);
+      if (event.data.type === 'renderer') this.onRenderer?.(event.data.kind);
+    };
+    this.post({ type: 'setup', canvas: offscreen, renderer, options, size }, [offscreen]);
+    this.lastOptions = JSON.stringify(options);
+  }
+
+  // Skips the post when nothing changed, since options are pushed every render
+  setOptions(options: Partial<ParticleEngineOptions>) {
+    const serialized = JSON.stringify(options);
+    if (serialized === this.lastOptions) return;
+
+    this.lastOptions = serialized;
+    this.post({ type: 'options', options });
+  }
+
+  resize(width: number, height: number, pixelRatio: number = 1) {
+    this.post({ type: 'resize', width, height, pixelRatio });
+  }
+
+  init() {
+    this.post({ type: 'init' });
+  }
+
+  setInteractors(interactors: HandPosition[]) {
+    this.post({ type: 'interactors', interactors });
+  }
+
+  setTargetFps(targetFps: number) {
+    this.post({ type: 'targetFps', targetFps });
+  }
+
+  setStatsEnabled(enabled: boolean) {
+    this.post({ type: 'stats', enabled });
+  }
+
+  start() {
+    this.post({ type: 'start' });
+  }
+
+  stop() {
+    this.post({ type: 'stop' });
+  }
+
+  dispose() {
+    this.worker.terminate();
+  }
+
+  private post(message: EngineWorkerMessage, transfer: Transferable[] = []) {
+    this.worker.postMessage(message, transfer);
+  }
+}
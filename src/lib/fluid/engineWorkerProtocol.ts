@@ -0,0 +1,30 @@
+import type { FrameStats, HandPosition, ParticleEngineOptions } from './particleEngine';
+import type { QualityTier } from './qualityController';
+import type { RendererKind } from './renderer';
+
+// Size in world units (CSS px); the canvas gets pixelRatio device pixels per unit
+export interface WorldSize {
+  width: number;
+  height: number;
+  pixelRatio: number;
+}
+
+// Messages the main thread posts to the engine worker
+export type EngineWorkerMessage =
+  | { type: 'setup'; canvas: OffscreenCanvas; renderer: RendererKind; options: Partial<ParticleEngineOptions>; size: WorldSize }
+  | { type: 'options'; options: Partial<ParticleEngineOptions> }
+  | ({ type: 'resize' } & WorldSize)
+  | { type: 'init' }
+  | { type: 'interactors'; interactors: HandPosition[] }
+  | { type: 'targetFps'; targetFps: number }
+  // Per-frame stats are only posted back while enabled
+  | { type: 'stats'; enabled: boolean }
+  | { type: 'start' }
+  | { type: 'stop' };
+
+// Messages the engine worker posts back
+export type EngineWorkerEvent =
+  | { type: 'quality'; tier: QualityTier }
+  // The backend actually drawing, after any fallback
+  | { type: 'renderer'; kind: RendererKind }
+  | { type: 'stats'; stats: FrameStats };
@@ -0,0 +1,297 @@
+import { constrainToBounds } from './bounds';
+import type { FluidBuffers } from './types';
+
+export interface FlipParams {
+  // MAC grid cell size in px
+  cellSize: number;
+  // 0 = pure PIC (smooth, damped), 1 = pure FLIP (lively, noisy)
+  flipRatio: number;
+  // Gauss-Seidel sweeps of the incompressibility solve
+  pressureIterations: number;
+  // Successive over-relaxation factor for the solve, between 1 and 2
+  overRelaxation: number;
+  // Particles per cell the fluid settles at; denser cells are pushed apart
+  restDensity: number;
+  // How hard over-dense cells push back, 0 disables drift compensation
+  driftCompensation: number;
+  // Downward acceleration in px/frame²
+  gravity: number;
+}
+
+export const DEFAULT_FLIP_PARAMS: FlipParams = {
+  cellSize: 12,
+  flipRatio: 0.9,
+  pressureIterations: 40,
+  overRelaxation: 1.9,
+  restDensity: 4,
+  driftCompensation: 1,
+  gravity: 0.2,
+};
+
+const AIR = 0;
+const FLUID = 1;
+
+/**
+ * FLIP/PIC hybrid on a staggered (MAC) grid. Horizontal velocities live on
+ * the vertical cell faces and vertical velocities on the horizontal ones.
+ * The canvas edges are solid walls: their faces carry no flow through them,
+ * and particles that still cross get the usual soft bounce.
+ */
+export class FlipSolver {
+  params: FlipParams;
+
+  private cols = 0;
+  private rows = 0;
+  private u = new Float32Array(0);
+  private v = new Float32Array(0);
+  private uPrev = new Float32Array(0);
+  private vPrev = new Float32Array(0);
+  private uWeight = new Float32Array(0);
+  private vWeight = new Float32Array(0);
+  private cellType = new Uint8Array(0);
+  private cellDensity = new Float32Array(0);
+
+  // Interpolation stencil of the last `locate` call and its corner weights
+  private i0 = 0;
+  private j0 = 0;
+  private fx = 0;
+  private fy = 0;
+  private w00 = 0;
+  private w10 = 0;
+  private w01 = 0;
+  private w11 = 0;
+
+  constructor(params: Partial<FlipParams> = {}) {
+    this.params = { ...DEFAULT_FLIP_PARAMS, ...params };
+  }
+
+  step(particles: FluidBuffers, width: number, height: number, dt: number) {
+    this.resize(width, height);
+
+    const { count, x, y, vx, vy } = particles;
+    for (let i = 0; i < count; i++) {
+      vy[i] += this.params.gravity * dt;
+      x[i] += vx[i] * dt;
+      y[i] += vy[i] * dt;
+      constrainToBounds(particles, i, width, height);
+    }
+
+    this.transferToGrid(particles);
+    this.updateDensity(particles);
+    this.solveIncompressibility();
+    this.transferFromGrid(particles);
+  }
+
+  private resize(width: number, height: number) {
+    const { cellSize } = this.params;
+    const cols = Math.max(1, Math.ceil(width / cellSize));
+    const rows = Math.max(1, Math.ceil(height / cellSize));
+    if (cols === this.cols && rows === this.rows) return;
+
+    this.cols = cols;
+    this.rows = rows;
+    const uSize = (cols + 1) * rows;
+    const vSize = cols * (rows + 1);
+    this.u = new Float32Array(uSize);
+    this.uPrev = new Float32Array(uSize);
+    this.uWeight = new Float32Array(uSize);
+    this.v = new Float32Array(vSize);
+    this.vPrev = new Float32Array(vSize);
+    this.vWeight = new Float32Array(vSize);
+    this.cellType = new Uint8Array(cols * rows);
+    this.cellDensity = new Float32Array(cols * rows);
+  }
+
+  // Particle velocities to the faces, then keep a copy for the FLIP delta
+  private transferToGrid(particles: FluidBuffers) {
+    const { cols, rows, u, v, uWeight, vWeight, cellType } = this;
+    const { cellSize } = this.params;
+
+    u.fill(0);
+    v.fill(0);
+    uWeight.fill(0);
+    vWeight.fill(0);
+    cellType.fill(AIR);
+
+    const { count, x, y, vx, vy } = particles;
+    for (let i = 0; i < count; i++) {
+      const col = Math.min(cols - 1, Math.max(0, Math.floor(x[i] / cellSize)));
+      const row = Math.min(rows - 1, Math.max(0, Math.floor(y[i] / cellSize)));
+      cellType[row * cols + col] = FLUID;
+
+      this.locate(x[i], y[i], 0, 0.5, cols + 1, rows);
+      this.scatter(u, uWeight, cols + 1, vx[i]);
+
+      this.locate(x[i], y[i], 0.5, 0, cols, rows + 1);
+      this.scatter(v, vWeight, cols, vy[i]);
+    }
+
+    for (let k = 0; k < u.length; k++) {
+      if (uWeight[k] > 0) u[k] /= uWeight[k];
+    }
+    for (let k = 0; k < v.length; k++) {
+      if (vWeight[k] > 0) v[k] /= vWeight[k];
+    }
+
+    this.applyWallBoundaries();
+    this.uPrev.set(u);
+    this.vPrev.set(v);
+  }
+
+  // Particle count per cell, used to push apart regions that have compressed
+  private updateDensity(particles: FluidBuffers) {
+    const { cols, rows, cellDensity } = this;
+    cellDensity.fill(0);
+
+    const { count, x, y } = particles;
+    for (let i = 0; i < count; i++) {
+      this.locate(x[i], y[i], 0.5, 0.5, cols, rows);
+      this.scatter(cellDensity, null, cols, 1);
+    }
+  }
+
+  private solveIncompressibility() {
+    const { cols, rows, u, v, cellType, cellDensity } = this;
+    const { overRelaxation, restDensity, driftCompensation } = this.params;
+    const iterations = Math.max(1, Math.round(this.params.pressureIterations));
+
+    for (let iteration = 0; iteration < iterations; iteration++) {
+      for (let row = 0; row < rows; row++) {
+        for (let col = 0; col < cols; col++) {
+          const cell = row * cols + col;
+          if (cellType[cell] !== FLUID) continue;
+
+          // Wall faces are closed, every other face can carry flow
+          const left = col > 0 ? 1 : 0;
+          const right = col < cols - 1 ? 1 : 0;
+          const top = row > 0 ? 1 : 0;
+          const bottom = row < rows - 1 ? 1 : 0;
+          const open = left + right + top + bottom;
+          if (open === 0) continue;
+
+          const uLeft = row * (cols + 1) + col;
+          const vTop = row * cols + col;
+          let divergence = u[uLeft + 1] - u[uLeft] + v[vTop + cols] - v[vTop];
+
+          if (driftCompensation > 0 && restDensity > 0) {
+            const compression = cellDensity[cell] - restDensity;
+            if (compression > 0) divergence -= driftCompensation * compression / restDensity;
+          }
+
+          const correction = -divergence / open * overRelaxation;
+          u[uLeft] -= left * correction;
+          u[uLeft + 1] += right * correction;
+          v[vTop] -= top * correction;
+          v[vTop + cols] += bottom * correction;
+        }
+      }
+    }
+  }
+
+  // Blend the PIC velocity with the particle's own velocity plus the grid change
+  private transferFromGrid(particles: FluidBuffers) {
+    const { cols, rows, u, v, uPrev, vPrev } = this;
+    const { flipRatio } = this.params;
+
+    const { count, x, y, vx, vy } = particles;
+    for (let i = 0; i < count; i++) {
+      this.locate(x[i], y[i], 0, 0.5, cols + 1, rows);
+      if (this.weighStencil(0)) {
+        const picX = this.interpolate(u, cols + 1);
+        const flipX = vx[i] + picX - this.interpolate(uPrev, cols + 1);
+        vx[i] = flipRatio * flipX + (1 - flipRatio) * picX;
+      }
+
+      this.locate(x[i], y[i], 0.5, 0, cols, rows + 1);
+      if (this.weighStencil(1)) {
+        const picY = this.interpolate(v, cols);
+        const flipY = vy[i] + picY - this.interpolate(vPrev, cols);
+        vy[i] = flipRatio * flipY + (1 - flipRatio) * picY;
+      }
+    }
+  }
+
+  // No flow through the canvas edges
+  private applyWallBoundaries() {
+    const { cols, rows, u, v } = this;
+    for (let row = 0; row < rows; row++) {
+      u[row * (cols + 1)] = 0;
+      u[row * (cols + 1) + cols] = 0;
+    }
+    for (let col = 0; col < cols; col++) {
+      v[col] = 0;
+      v[rows * cols + col] = 0;
+    }
+  }
+
+  /**
+   * Finds the 2x2 block of samples around a point for a grid whose samples
+   * sit at (i + offsetX, j + offsetY) cells, clamped to the grid.
+   */
+  private locate(x: number, y: number, offsetX: number, offsetY: number, nx: number, ny: number) {
+    const { cellSize } = this.params;
+    const gx = Math.min(Math.max(x / cellSize - offsetX, 0), nx - 1);
+    const gy = Math.min(Math.max(y / cellSize - offsetY, 0), ny - 1);
+    this.i0 = Math.min(Math.floor(gx), Math.max(nx - 2, 0));
+    this.j0 = Math.min(Math.floor(gy), Math.max(ny - 2, 0));
+    this.fx = nx > 1 ? gx - this.i0 : 0;
+    this.fy = ny > 1 ? gy - this.j0 : 0;
+  }
+
+  private scatter(field: Float32Array, weights: Float32Array | null, stride: number, value: number) {
+    const { i0, j0, fx, fy } = this;
+    const i1 = fx > 0 ? i0 + 1 : i0;
+    const j1 = fy > 0 ? j0 + 1 : j0;
+    this.deposit(field, weights, j0 * stride + i0, value, (1 - fx) * (1 - fy));
+    this.deposit(field, weights, j0 * stride + i1, value, fx * (1 - fy));
+    this.deposit(field, weights, j1 * stride + i0, value, (1 - fx) * fy);
+    this.deposit(field, weights, j1 * stride + i1, value, fx * fy);
+  }
+
+  private deposit(field: Float32Array, weights: Float32Array | null, index: number, value: number, weight: number) {
+    field[index] += value * weight;
+    if (weights) weights[index] += weight;
+  }
+
+  /**
+   * Weights the current stencil using only faces that border fluid, so air
+   * faces with no data don't drag surface particles to a stop. Returns
+   * false when no usable face is nearby.
+   */
+  private weighStencil(axis: 0 | 1) {
+    const { i0, j0, fx, fy } = this;
+    const i1 = fx > 0 ? i0 + 1 : i0;
+    const j1 = fy > 0 ? j0 + 1 : j0;
+    this.w00 = this.bordersFluid(i0, j0, axis) ? (1 - fx) * (1 - fy) : 0;
+    this.w10 = this.bordersFluid(i1, j0, axis) ? fx * (1 - fy) : 0;
+    this.w01 = this.bordersFluid(i0, j1, axis) ? (1 - fx) * fy : 0;
+    this.w11 = this.bordersFluid(i1, j1, axis) ? fx * fy : 0;
+
+    const total = this.w00 + this.w10 + this.w01 + this.w11;
+    if (total <= 0) return false;
+
+    this.w00 /= total;
+    this.w10 /= total;
+    this.w01 /= total;
+    this.w11 /= total;
+    return true;
+  }
+
+  private interpolate(field: Float32Array, stride: number) {
+    const { i0, j0, fx, fy } = this;
+    const i1 = fx > 0 ? i0 + 1 : i0;
+    const j1 = fy > 0 ? j0 + 1 : j0;
+    return field[j0 * stride + i0] * this.w00 + field[j0 * stride + i1] * this.w10 +
+      field[j1 * stride + i0] * this.w01 + field[j1 * stride + i1] * this.w11;
+  }
+
+  private bordersFluid(i: number, j: number, axis: 0 | 1) {
+    const { cols, rows, cellType } = this;
+    // A u face (i, j) sits between cells (i - 1, j) and (i, j); a v face between (i, j - 1) and (i, j)
+    const aCol = axis === 0 ? i - 1 : i;
+    const aRow = axis === 0 ? j : j - 1;
+    const a = aCol >= 0 && aRow >= 0 && cellType[aRow * cols + aCol] === FLUID;
+    const b = i < cols && j < rows && cellType[j * cols + i] === FLUID;
+    return a || b;
+  }
+}
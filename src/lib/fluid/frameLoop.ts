@@ -0,0 +1,30 @@
+import type { FrameStats, ParticleEngine } from './particleEngine';
+import type { QualityController, QualityTier } from './qualityController';
+import type { ParticleRenderer } from './renderer';
+
+/** Time since the previous frame; the first frame after a (re)start runs a single step. */
+export function frameElapsed(lastTime: number | null, time: number) {
+  return lastTime === null ? 1000 / 60 : time - lastTime;
+}
+
+/**
+ * One animation frame, shared by the main-thread and worker loops: advances
+ * and draws the engine, times the work for the quality controller and
+ * passes the frame's stats to `onStats` if given. Returns the tier the
+ * controller switched to, if any, for the caller to apply.
+ */
+export function runFrame(
+  engine: ParticleEngine,
+  renderer: ParticleRenderer,
+  quality: QualityController,
+  elapsed: number,
+  onStats?: ((stats: FrameStats) => void) | null
+): QualityTier | null {
+  const workStart = performance.now();
+  engine.advance(elapsed);
+  engine.render(renderer);
+  const tier = quality.sample(elapsed, performance.now() - workStart);
+
+  onStats?.({ ...engine.stats, frameMs: elapsed });
+  return tier;
+}
@@ -0,0 +1,181 @@
+import type { HandPosition } from './particleEngine';
+import { TOOLS, type PointerTool } from './tools';
+
+// Stick deflection ignored around the centre, so worn sticks don't drift
+const DEADZONE = 0.15;
+// Cursor speed in px per 60Hz frame at full deflection
+const CURSOR_SPEED = 12;
+// Trigger pull that gives the normal interaction strength; a full pull is twice as strong
+const NEUTRAL_PULL = 0.5;
+const MAX_PULL_STRENGTH = 2;
+// Pulls below this count as released
+const TRIGGER_THRESHOLD = 0.05;
+
+// Velocities are in px per 60Hz frame, like the engine's
+const FRAME_MS = 1000 / 60;
+// Caps the cursor jump after a stall such as a background tab
+const MAX_FRAMES = 4;
+
+// Buttons and axes of the standard mapping
+const BUTTON_A = 0;
+const BUTTON_LB = 4;
+const BUTTON_RB = 5;
+const BUTTON_LT = 6;
+const BUTTON_RT = 7;
+const BUTTON_START = 9;
+const STICK_AXES = [[0, 1], [2, 3]];
+
+export type GamepadAction = 'reset' | 'previousPreset' | 'nextPreset' | 'toggleSettings';
+
+const BUTTON_ACTIONS: [number, GamepadAction][] = [
+  [BUTTON_A, 'reset'],
+  [BUTTON_LB, 'previousPreset'],
+  [BUTTON_RB, 'nextPreset'],
+  [BUTTON_START, 'toggleSettings'],
+];
+
+interface Cursor {
+  x: number;
+  y: number;
+  vx: number;
+  vy: number;
+}
+
+interface PadState {
+  // One per stick, left then right
+  cursors: Cursor[];
+  // Button states of the last poll, so actions fire once per press
+  pressed: boolean[];
+}
+
+/**
+ * Turns connected game controllers into engine interactors. Each stick
+ * steers a cursor over the element; the right trigger applies the tool at
+ * both of a pad's cursors and the left trigger its inverse, harder the
+ * further they're pulled. With the triggers released the cursors stay on
+ * screen at zero strength, so every tool, brushes included, can be aimed
+ * before it acts. A, the shoulder buttons and Start call `onAction`.
+ *
+ * The Gamepad API has no move events, so connected pads are polled once
+ * per animation frame, and polling stops while none are connected.
+ */
+export class GamepadInput {
+  // How every cursor acts on the fluid; read on each poll
+  tool: PointerTool = TOOLS[0];
+
+  private pads = new Map<number, PadState>();
+  private frame = 0;
+  private lastTime = 0;
+  private hadInteractors = false;
+
+  constructor(
+    private element: HTMLElement,
+    private onChange: (interactors: HandPosition[]) => void,
+    private onAction: (action: GamepadAction) => void
+  ) {
+    window.addEventListener('gamepadconnected', this.handleConnected);
+    window.addEventListener('gamepaddisconnected', this.handleDisconnected);
+    // Pads connected before this input existed don't send the event again
+    if (connectedGamepads().length > 0) this.startPolling();
+  }
+
+  /** Stops polling and removes every cursor. */
+  dispose() {
+    window.removeEventListener('gamepadconnected', this.handleConnected);
+    window.removeEventListener('gamepaddisconnected', this.handleDisconnected);
+    window.cancelAnimationFrame(this.frame);
+    this.frame = 0;
+    this.pads.clear();
+    if (this.hadInteractors) this.onChange([]);
+    this.hadInteractors = false;
+  }
+
+  private handleConnected = () => {
+    this.startPolling();
+  };
+
+  private handleDisconnected = (event: GamepadEvent) => {
+    this.pads.delete(event.gamepad.index);
+  };
+
+  private startPolling() {
+    if (this.frame) return;
+    this.lastTime = performance.now();
+    this.frame = window.requestAnimationFrame(this.poll);
+  }
+
+  private poll = (time: number) => {
+    const frames = Math.min(Math.max(time - this.lastTime, 0) / FRAME_MS, MAX_FRAMES);
+    this.lastTime = time;
+
+    const gamepads = connectedGamepads();
+    const interactors: HandPosition[] = [];
+    for (const gamepad of gamepads) {
+      this.update(gamepad, frames, interactors);
+    }
+    // Pads can vanish without an event, e.g. when the page was hidden
+    this.pads.forEach((_, index) => {
+      if (!gamepads.some((gamepad) => gamepad.index === index)) this.pads.delete(index);
+    });
+
+    // Nothing to say when there was and is nothing under control
+    if (interactors.length > 0 || this.hadInteractors) this.onChange(interactors);
+    this.hadInteractors = interactors.length > 0;
+
+    this.frame = gamepads.length > 0 ? window.requestAnimationFrame(this.poll) : 0;
+  };
+
+  private update(gamepad: Gamepad, frames: number, interactors: HandPosition[]) {
+    const width = this.element.clientWidth;
+    const height = this.element.clientHeight;
+    let state = this.pads.get(gamepad.index);
+    if (!state) {
+      // Left and right stick cursors start a third of the way in from each side, a row per pad
+      const y = Math.min(height / 2 + this.pads.size * 40, height);
+      state = {
+        cursors: STICK_AXES.map((_, stick) => ({ x: width * (stick + 1) / 3, y, vx: 0, vy: 0 })),
+        pressed: [],
+      };
+      this.pads.set(gamepad.index, state);
+    }
+
+    for (const [button, action] of BUTTON_ACTIONS) {
+      const pressed = gamepad.buttons[button]?.pressed ?? false;
+      if (pressed && !state.pressed[button]) this.onAction(action);
+      state.pressed[button] = pressed;
+    }
+
+    state.cursors.forEach((cursor, stick) => {
+      const [axisX, axisY] = STICK_AXES[stick];
+      const { x, y } = applyDeadzone(gamepad.axes[axisX] ?? 0, gamepad.axes[axisY] ?? 0);
+      cursor.vx = x * CURSOR_SPEED;
+      cursor.vy = y * CURSOR_SPEED;
+      cursor.x = Math.min(Math.max(cursor.x + cursor.vx * frames, 0), width);
+      cursor.y = Math.min(Math.max(cursor.y + cursor.vy * frames, 0), height);
+    });
+
+    const { mode, isOpen } = this.tool;
+    const apply = gamepad.buttons[BUTTON_RT]?.value ?? 0;
+    const invert = gamepad.buttons[BUTTON_LT]?.value ?? 0;
+    const pull = Math.max(apply, invert);
+    const strength = pull < TRIGGER_THRESHOLD ? 0 : Math.min(pull / NEUTRAL_PULL, MAX_PULL_STRENGTH);
+    const inverted = invert > apply;
+    for (const { x, y, vx, vy } of state.cursors) {
+      interactors.push({ x, y, vx, vy, isOpen: isOpen !== inverted, mode, strength });
+    }
+  }
+}
+
+function connectedGamepads() {
+  const gamepads = navigator.getGamepads?.() ?? [];
+  return Array.from(gamepads).filter((gamepad): gamepad is Gamepad => gamepad !== null && gamepad.connected);
+}
+
+// Scales the stick's travel past the deadzone back to 0..1, keeping its direction
+function applyDeadzone(x: number, y: number) {
+  const length = Math.hypot(x, y);
+  if (length < DEADZONE) return { x: 0, y: 0 };
+
+  const scale = Math.min((length - DEADZONE) / (1 - DEADZONE), 1) / length;
+  return { x: x * scale, y: y * scale };
+}
@@ -0,0 +1,96 @@
+import { GLOW_SCALE, type RenderingContext } from './renderer';
+
+// Radii are rounded to this fraction of a pixel before a sprite is drawn
+const RADIUS_STEPS_PER_PX = 4;
+
+type SpriteCanvas = OffscreenCanvas | HTMLCanvasElement;
+
+export interface ParticleSprite {
+  glow: SpriteCanvas;
+  core: SpriteCanvas;
+  // Distance from the sprite's top-left corner to the particle centre, in
+  // world units; draw each sprite twice its offset wide
+  glowOffset: number;
+  coreOffset: number;
+}
+
+function createSpriteCanvas(size: number): SpriteCanvas {
+  if (typeof OffscreenCanvas !== 'undefined') return new OffscreenCanvas(size, size);
+
+  const canvas = document.createElement('canvas');
+  canvas.width = size;
+  canvas.height = size;
+  return canvas;
+}
+
+/**
+ * Pre-rendered glow halo and core dot for every palette colour and radius
+ * bucket, drawn at full opacity so a particle only needs `globalAlpha` and
+ * two `drawImage` calls. Sprites are made on first use at the canvas's
+ * pixel density and all dropped when the palette or density changes.
+ */
+export class GlowSpriteCache {
+  private palette: string[] = [];
+  private scale = 1;
+  private sprites = new Map<number, ParticleSprite>();
+
+  /** Adopts the palette in use, clearing the cache if any colour differs. */
+  setPalette(palette: readonly string[]) {
+    if (palette.length === this.palette.length && palette.every((color, i) => color === this.palette[i])) return;
+
+    this.palette = [...palette];
+    this.sprites.clear();
+  }
+
+  /** Sets the device pixels per world unit sprites are drawn at. */
+  setScale(scale: number) {
+    if (scale === this.scale || !(scale > 0)) return;
+
+    this.scale = scale;
+    this.sprites.clear();
+  }
+
+  get(colorIndex: number, radius: number) {
+    const bucket = Math.max(1, Math.round(radius * this.scale * RADIUS_STEPS_PER_PX));
+    const key = bucket * 256 + colorIndex;
+    let sprite = this.sprites.get(key);
+    if (!sprite) {
+      sprite = this.render(this.palette[colorIndex] ?? this.palette[0], bucket / RADIUS_STEPS_PER_PX);
+      this.sprites.set(key, sprite);
+    }
+    return sprite;
+  }
+
+  clear() {
+    this.sprites.clear();
+  }
+
+  // `radius` is in device pixels
+  private render(color: string, radius: number): ParticleSprite {
+    const glowRadius = radius * GLOW_SCALE;
+    const glowOffset = Math.ceil(glowRadius) + 1;
+    const glow = createSpriteCanvas(glowOffset * 2);
+    const glowCtx = glow.getContext('2d') as RenderingContext | null;
+    if (glowCtx) {
+      const gradient = glowCtx.createRadialGradient(glowOffset, glowOffset, 0, glowOffset, glowOffset, glowRadius);
+      gradient.addColorStop(0, color);
+      gradient.addColorStop(1, 'transparent');
+      glowCtx.beginPath();
+      glowCtx.arc(glowOffset, glowOffset, glowRadius, 0, Math.PI * 2);
+      glowCtx.fillStyle = gradient;
+      glowCtx.fill();
+    }
+
+    const coreOffset = Math.ceil(radius) + 1;
+    const core = createSpriteCanvas(coreOffset * 2);
+    const coreCtx = core.getContext('2d') as RenderingContext | null;
+    if (coreCtx) {
+      coreCtx.beginPath();
+      coreCtx.arc(coreOffset, coreOffset, radius, 0, Math.PI * 2);
+      coreCtx.fillStyle = color;
+      coreCtx.fill();
+    }
+
+    return { glow, core, glowOffset: glowOffset / this.scale, coreOffset: coreOffset / this.scale };
+  }
+}
@@ -0,0 +1,17 @@
+// Normalisation constants for the Müller et al. smoothing kernels in 2D.
+// Each is multiplied by the radial term noted beside it.
+
+// poly6: (h² - r²)³
+export function poly6Coefficient(h: number) {
+  return 4 / (Math.PI * Math.pow(h, 8));
+}
+
+// spiky gradient magnitude: (h - r)², negative because W falls with r
+export function spikyGradCoefficient(h: number) {
+  return -30 / (Math.PI * Math.pow(h, 5));
+}
+
+// viscosity Laplacian: (h - r)
+export function viscosityLaplacianCoefficient(h: number) {
+  return 40 / (Math.PI * Math.pow(h, 5));
+}
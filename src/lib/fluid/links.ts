@@ -0,0 +1,189 @@
+import { parseColor, type Rgba } from './color';
+import type { SpatialHash } from './spatialHash';
+import type { ParticleStore } from './particleStore';
+import type { ParticleColors } from './renderer';
+
+// 'fixed' draws every line in one colour; 'particle' blends each line from
+// the colour of the particle at one end to the colour at the other
+export type LinkColorMode = 'fixed' | 'particle';
+
+export interface LinkParams {
+  enabled: boolean;
+  // Particles closer than this in px are joined
+  maxDistance: number;
+  // Cap on lines touching any one particle; the first found win, not the nearest
+  maxLinksPerParticle: number;
+  colorMode: LinkColorMode;
+}
+
+export const DEFAULT_LINK_PARAMS: LinkParams = {
+  enabled: true,
+  maxDistance: 50,
+  maxLinksPerParticle: 12,
+  colorMode: 'fixed',
+};
+
+export const LINK_COLOR = 'rgba(0, 210, 255, 0.1)';
+export const LINK_WIDTH = 0.5;
+
+// Palette colours are opaque, so they're toned down to match the fixed colour
+const PARTICLE_COLOR_OPACITY = 0.1;
+// Line opacity at zero distance, fading linearly to nothing at maxDistance
+const MAX_OPACITY = 0.3;
+// Lines are grouped into this many opacity levels and drawn once per group
+const ALPHA_BUCKETS = 8;
+// A gradient line is drawn as this many segments, each in one step of the blend
+const GRADIENT_STEPS = 4;
+// Gradient colours are rounded to this many levels per channel so segments share batches
+const COLOR_LEVELS = 16;
+// Past this many colour groups the cache is dropped, e.g. after many colour map changes
+const MAX_GROUPS = 4096;
+
+// Segments that share a colour and opacity, to be drawn in one go
+export interface LinkBatch {
+  // CSS colour, and the same as straight RGBA
+  color: string;
+  rgba: Rgba;
+  opacity: number;
+  // x0, y0, x1, y1 per segment
+  coords: Float32Array;
+  length: number;
+}
+
+/**
+ * The "web" of lines between nearby particles. Segments are collected into
+ * batches by colour and opacity level, so a backend draws one path per
+ * batch rather than one per line.
+ */
+export class LinkLayer {
+  private linkCount = new Uint16Array(0);
+  // Keyed by rounded colour and opacity level; -1 colour is LINK_COLOR
+  private groups = new Map<number, LinkBatch>();
+  private batches: LinkBatch[] = [];
+  private palette: readonly string[] = [];
+  private paletteRgba: Rgba[] = [];
+
+  /**
+   * Finds the lines for this frame. `grid` must index the store's current
+   * positions; segments join the interpolated `renderX`/`renderY` positions.
+   * The returned batches are reused by the next call.
+   */
+  build(
+    store: ParticleStore,
+    grid: SpatialHash,
+    renderX: Float32Array,
+    renderY: Float32Array,
+    params: LinkParams,
+    distanceScale: number = 1,
+    particleColors: ParticleColors = store
+  ) {
+    const { enabled, colorMode } = params;
+    const maxDistance = params.maxDistance * distanceScale;
+    const maxLinks = Math.max(1, Math.round(params.maxLinksPerParticle));
+    this.batches.length = 0;
+    if (!enabled || maxDistance <= 0) return this.batches;
+
+    const { count } = store;
+    const { colorIndex } = particleColors;
+    this.prepare(count, particleColors.palette);
+    const { linkCount, paletteRgba } = this;
+    const maxDistance2 = maxDistance * maxDistance;
+
+    for (let i = 0; i < count; i++) {
+      if (linkCount[i] >= maxLinks) continue;
+
+      grid.query(store.x[i], store.y[i], maxDistance, (j) => {
+        if (j <= i || linkCount[i] >= maxLinks || linkCount[j] >= maxLinks) return;
+
+        const dx = renderX[j] - renderX[i];
+        const dy = renderY[j] - renderY[i];
+        const distance2 = dx * dx + dy * dy;
+        if (distance2 >= maxDistance2) return;
+
+        linkCount[i]++;
+        linkCount[j]++;
+        const strength = 1 - Math.sqrt(distance2) / maxDistance;
+        const bucket = Math.min(ALPHA_BUCKETS - 1, Math.floor(strength * ALPHA_BUCKETS));
+
+        if (colorMode !== 'particle') {
+          this.push(this.group(-1, bucket), renderX[i], renderY[i], renderX[j], renderY[j]);
+          return;
+        }
+
+        const from = paletteRgba[colorIndex[i]] ?? paletteRgba[0];
+        const to = paletteRgba[colorIndex[j]] ?? paletteRgba[0];
+        for (let step = 0; step < GRADIENT_STEPS; step++) {
+          const t0 = step / GRADIENT_STEPS;
+          const t1 = (step + 1) / GRADIENT_STEPS;
+          this.push(
+            this.group(blendKey(from, to, (t0 + t1) / 2), bucket),
+            renderX[i] + dx * t0, renderY[i] + dy * t0,
+            renderX[i] + dx * t1, renderY[i] + dy * t1
+          );
+        }
+      });
+    }
+
+    this.groups.forEach((batch) => {
+      if (batch.length > 0) this.batches.push(batch);
+    });
+    return this.batches;
+  }
+
+  private prepare(count: number, palette: readonly string[]) {
+    if (this.linkCount.length < count) {
+      this.linkCount = new Uint16Array(count);
+    } else {
+      this.linkCount.fill(0, 0, count);
+    }
+
+    // The store's palette can gain entries in place, so the length is checked too
+    if (palette !== this.palette || palette.length !== this.paletteRgba.length) {
+      this.palette = palette;
+      this.paletteRgba = palette.map(parseColor);
+    }
+
+    if (this.groups.size > MAX_GROUPS) this.groups.clear();
+    this.groups.forEach((batch) => {
+      batch.length = 0;
+    });
+  }
+
+  // The batch for a colour key from `blendKey` (or -1) at an opacity level, made on first use
+  private group(colorKey: number, bucket: number) {
+    const key = colorKey * ALPHA_BUCKETS + bucket;
+    let batch = this.groups.get(key);
+    if (!batch) {
+      const opacity = (bucket + 0.5) / ALPHA_BUCKETS * MAX_OPACITY;
+      if (colorKey < 0) {
+        batch = { color: LINK_COLOR, rgba: parseColor(LINK_COLOR), opacity, coords: new Float32Array(64), length: 0 };
+      } else {
+        const channel = (shift: number) => (colorKey >> shift & (COLOR_LEVELS - 1)) / (COLOR_LEVELS - 1);
+        const rgba: Rgba = [channel(8), channel(4), channel(0), 1];
+        const color = `rgb(${rgba.slice(0, 3).map((c) => Math.round(c * 255)).join(', ')})`;
+        batch = { color, rgba, opacity: opacity * PARTICLE_COLOR_OPACITY, coords: new Float32Array(64), length: 0 };
+      }
+      this.groups.set(key, batch);
+    }
+    return batch;
+  }
+
+  private push(batch: LinkBatch, x0: number, y0: number, x1: number, y1: number) {
+    if (batch.length + 4 > batch.coords.length) {
+      const grown = new Float32Array(batch.coords.length * 2);
+      grown.set(batch.coords);
+      batch.coords = grown;
+    }
+    const { coords } = batch;
+    coords[batch.length++] = x0;
+    coords[batch.length++] = y0;
+    coords[batch.length++] = x1;
+    coords[batch.length++] = y1;
+  }
+}
+
+// A colour part way from `from` to `to`, rounded to COLOR_LEVELS per channel and packed into an int
+function blendKey(from: Rgba, to: Rgba, t: number) {
+  const level = (c: number) => Math.round((from[c] + (to[c] - from[c]) * t) * (COLOR_LEVELS - 1));
+  return level(0) << 8 | level(1) << 4 | level(2);
+}
@@ -0,0 +1,726 @@
+import { SpatialHash } from './spatialHash';
+import { constrainToBounds } from './bounds';
+import { createRandom, randomSeed, type RandomSource } from './random';
+import { SphSolver, DEFAULT_SPH_PARAMS, type SphParams } from './sph';
+import { PbfSolver, DEFAULT_PBF_PARAMS, type PbfParams } from './pbf';
+import { FlipSolver, DEFAULT_FLIP_PARAMS, type FlipParams } from './flip';
+import { StableFluidGrid, DEFAULT_STABLE_FLUID_PARAMS, type StableFluidParams } from './stableFluids';
+import { ParticleStore } from './particleStore';
+import { DEFAULT_LINK_PARAMS, type LinkParams } from './links';
+import { DEFAULT_SURFACE_PARAMS, type SurfaceParams } from './surface';
+import { ColorMapper, DEFAULT_COLOR_MAP_PARAMS, type ColorMapParams } from './colorMap';
+import type { ParticleRenderer } from './renderer';
+import { QUALITY_TIERS, DEFAULT_QUALITY_TIER, type QualitySettings } from './qualityController';
+import type { Particle } from './types';
+
+export type { Particle } from './types';
+export type { LinkColorMode } from './links';
+
+// 'push' repels when open and attracts when closed; 'drag' carries nearby
+// particles along with the interactor's own motion, like stirring water;
+// 'vortex' swirls them clockwise when open and counter-clockwise when
+// closed. The brushes act on particles under them: 'emit' adds particles,
+// 'erase' removes them and 'freeze' pins them in place when open and
+// releases them when closed, each faster the higher the strength. A brush
+// at strength 0 does nothing, so it can be shown as a preview of where it
+// will land.
+export type InteractorMode = 'push' | 'drag' | 'vortex' | 'emit' | 'erase' | 'freeze';
+
+export interface HandPosition {
+  x: number;
+  y: number;
+  isOpen: boolean;
+  mode?: InteractorMode;
+  // Velocity in px/frame. When absent the engine measures it from how far
+  // the interactor at the same list position moved since the last frame.
+  vx?: number;
+  vy?: number;
+  // Scales the interaction strength, e.g. by pen pressure; 1 when absent
+  strength?: number;
+  // Pushes along this vector instead of straight out from the centre, in
+  // proportion to its length (at most 1), e.g. the way a pen leans
+  direction?: { x: number; y: number };
+}
+
+// 'floaty' is the original drifting look, 'sph' a liquid that falls and pools,
+// 'pbf' a liquid that also keeps its volume, 'flip' a splashy particle/grid
+// hybrid, 'stable' smoke-like tracers carried by a grid velocity field
+export type SolverMode = 'floaty' | 'sph' | 'pbf' | 'flip' | 'stable';
+
+// How particles follow a change of size: 'keep' leaves them where they are
+// in px and pulls in any now outside, 'stretch' scales the scene to fit
+export type ResizeMode = 'keep' | 'stretch';
+
+export interface ParticleEngineOptions {
+  // Takes effect on the next init
+  particleCount: number;
+  interactionRadius: number;
+  interactionStrength: number;
+  // Side length in px of the neighbour grid cells
+  cellSize: number;
+  // Length of one physics step in seconds, independent of the display rate
+  fixedTimestep: number;
+  // Equal slices each physics step is split into
+  substeps: number;
+  // Seed for every random choice the simulation makes; the same seed and
+  // the same input replay the same run. Takes effect on the next init.
+  seed?: number;
+  solver: SolverMode;
+  sph?: Partial<SphParams>;
+  pbf?: Partial<PbfParams>;
+  flip?: Partial<FlipParams>;
+  stable?: Partial<StableFluidParams>;
+  resizeMode: ResizeMode;
+  // Lines between nearby particles
+  links?: Partial<LinkParams>;
+  // Metaball rendering of the particles as one liquid body
+  surface?: Partial<SurfaceParams>;
+  // Colour particles by a measured quantity instead of their spawn colour
+  colors?: Partial<ColorMapParams>;
+}
+
+export interface EngineStats {
+  // Wall time of the last `advance` and `render` calls in ms
+  physicsMs: number;
+  renderMs: number;
+  particleCount: number;
+  // Particle pairs within the solver's interaction range, each counted from
+  // both ends and summed over every step of the last advance; 0 for the
+  // grid-based FLIP and Stable Fluids solvers
+  neighborPairs: number;
+  // Values at the two ends of the colour map, in the scalar's units; both 0 when off
+  colorMin: number;
+  colorMax: number;
+}
+
+// One animation frame as seen by whatever drives the engine
+export interface FrameStats extends EngineStats {
+  // Time since the previous frame in ms
+  frameMs: number;
+}
+
+const SEPARATION_DISTANCE = 20;
+
+// Forces and velocities are tuned per frame of a 60Hz display
+const FRAME_MS = 1000 / 60;
+const MAX_FRAME_MS = 250;
+const MAX_STEPS_PER_FRAME = 8;
+
+// Derives the quality stream's seed from the simulation's
+const QUALITY_SEED_MASK = 0x9e3779b9;
+
+// Particles an emit brush adds per frame at strength 1
+const EMIT_RATE = 4;
+// Emitting stops at this many particles
+const MAX_PARTICLES = 10000;
+
+const DEFAULT_OPTIONS: ParticleEngineOptions = {
+  particleCount: 500,
+  interactionRadius: 150,
+  interactionStrength: 0.5,
+  cellSize: DEFAULT_LINK_PARAMS.maxDistance,
+  fixedTimestep: 1 / 60,
+  substeps: 1,
+  solver: 'floaty',
+  resizeMode: 'keep',
+};
+
+const PARTICLE_COLORS = [
+  'hsl(185, 100%, 55%)',  // cyan
+  'hsl(210, 100%, 60%)',  // blue
+  'hsl(270, 80%, 65%)',   // purple
+  'hsl(195, 100%, 50%)',  // light blue
+  'hsl(240, 80%, 60%)',   // indigo
+];
+
+function applyHandForce(
+  store: ParticleStore,
+  index: number,
+  hand: HandPosition,
+  velocity: { x: number; y: number },
+  radius: number,
+  strength: number
+) {
+  const dx = store.x[index] - hand.x;
+  const dy = store.y[index] - hand.y;
+  const distance = Math.sqrt(dx * dx + dy * dy);
+
+  if (hand.mode === 'drag') {
+    if (distance >= radius) return;
+
+    // Blend towards the interactor's velocity, fully at most, less further out
+    const blend = Math.min(1, (radius - distance) / radius * strength * (hand.strength ?? 1));
+    store.vx[index] += (velocity.x - store.vx[index]) * blend;
+    store.vy[index] += (velocity.y - store.vy[index]) * blend;
+  } else if (hand.mode === 'vortex') {
+    if (distance >= radius || distance === 0) return;
+
+    // Push at right angles to the centre; y points down, so this is clockwise on screen
+    const force = (radius - distance) / radius * strength * (hand.strength ?? 1);
+    const spin = hand.isOpen ? 1 : -1;
+    store.vx[index] -= dy / distance * force * spin;
+    store.vy[index] += dx / distance * force * spin;
+  } else if ((hand.mode ?? 'push') === 'push' && distance < radius && distance > 0) {
+    const force = (radius - distance) / radius * strength * (hand.strength ?? 1);
+    const angle = Math.atan2(dy, dx);
+
+    // Attract when hand is closed, repel when open
+    const direction = hand.isOpen ? 1 : -1;
+    const lean = hand.direction ? Math.min(1, Math.hypot(hand.direction.x, hand.direction.y)) : 0;
+    const radial = direction * (1 - lean);
+
+    store.vx[index] += (Math.cos(angle) * radial + (hand.direction?.x ?? 0)) * force;
+    store.vy[index] += (Math.sin(angle) * radial + (hand.direction?.y ?? 0)) * force;
+  }
+}
+
+// Modes that push particles around, as opposed to the brushes
+function isForceMode(mode: InteractorMode = 'push') {
+  return mode === 'push' || mode === 'drag' || mode === 'vortex';
+}
+
+function growFloats(array: Float32Array, size: number) {
+  const grown = new Float32Array(size);
+  grown.set(array);
+  return grown;
+}
+
+function advanceLife(store: ParticleStore, index: number, dt: number, random: RandomSource) {
+  store.life[index] += dt;
+  if (store.life[index] > store.maxLife[index]) {
+    store.life[index] = 0;
+    store.alpha[index] = random() * 0.5 + 0.5;
+  }
+}
+
+/**
+ * The whole simulation with no React or DOM dependency beyond the
+ * renderer it draws with, so it can run in a worker, in Node or on a plain
+ * page. Drive it with `advance` from an animation loop, or call `step`
+ * directly for a fixed amount of simulated time.
+ */
+export class ParticleEngine {
+  readonly store = new ParticleStore([...PARTICLE_COLORS]);
+  width = 0;
+  height = 0;
+  readonly stats: EngineStats = {
+    physicsMs: 0,
+    renderMs: 0,
+    particleCount: 0,
+    neighborPairs: 0,
+    colorMin: 0,
+    colorMax: 0,
+  };
+
+  private options: ParticleEngineOptions;
+  private seed: number;
+  private random: RandomSource;
+  // Separate stream for particles added by quality changes, which depend on
+  // timing, so they don't shift the simulation's own sequence
+  private qualityRandom: RandomSource;
+  private quality: QualitySettings = QUALITY_TIERS[DEFAULT_QUALITY_TIER];
+  private interactors: HandPosition[] = [];
+  private previousInteractors: HandPosition[] = [];
+  private interactorVelocities: { x: number; y: number }[] = [];
+
+  private grid: SpatialHash;
+  private sph = new SphSolver();
+  private pbf = new PbfSolver();
+  private flip = new FlipSolver();
+  private fluid = new StableFluidGrid();
+  private linkParams: LinkParams = DEFAULT_LINK_PARAMS;
+  private surfaceParams: SurfaceParams = DEFAULT_SURFACE_PARAMS;
+  private colorParams: ColorMapParams = DEFAULT_COLOR_MAP_PARAMS;
+  private colorMapper = new ColorMapper();
+
+  private accumulator = 0;
+  private renderAlpha = 1;
+  private renderFrames = 1;
+  private previousX = new Float32Array(0);
+  private previousY = new Float32Array(0);
+  // Positions of pinned particles at the start of a step
+  private heldX = new Float32Array(0);
+  private heldY = new Float32Array(0);
+  private renderX = new Float32Array(0);
+  private renderY = new Float32Array(0);
+
+  constructor(options: Partial<ParticleEngineOptions> = {}) {
+    this.options = { ...DEFAULT_OPTIONS };
+    this.grid = new SpatialHash(DEFAULT_OPTIONS.cellSize);
+    this.setOptions(options);
+    this.seed = this.options.seed ?? randomSeed();
+    this.random = createRandom(this.seed);
+    this.qualityRandom = createRandom(this.seed ^ QUALITY_SEED_MASK);
+  }
+
+  /** `Particle`-shaped views over the store, for code that works with objects. */
+  get particles(): Particle[] {
+    return this.store.views();
+  }
+
+  setOptions(options: Partial<ParticleEngineOptions>) {
+    this.options = { ...this.options, ...options };
+    this.grid.cellSize = this.options.cellSize;
+    this.sph.params = { ...DEFAULT_SPH_PARAMS, ...this.options.sph };
+    this.pbf.params = { ...DEFAULT_PBF_PARAMS, ...this.options.pbf };
+    this.flip.params = { ...DEFAULT_FLIP_PARAMS, ...this.options.flip };
+    this.fluid.params = { ...DEFAULT_STABLE_FLUID_PARAMS, ...this.options.stable };
+    this.linkParams = { ...DEFAULT_LINK_PARAMS, ...this.options.links };
+    this.surfaceParams = { ...DEFAULT_SURFACE_PARAMS, ...this.options.surface };
+    this.colorParams = { ...DEFAULT_COLOR_MAP_PARAMS, ...this.options.colors };
+  }
+
+  /** Scatters a fresh set of particles over the given area, restarting the random sequence. */
+  init(width: number, height: number) {
+    const particleCount = this.scaledParticleCount();
+    this.width = width;
+    this.height = height;
+
+    // Restart the sequence so every run from this seed matches
+    this.seed = this.options.seed ?? this.seed;
+    this.random = createRandom(this.seed);
+    this.qualityRandom = createRandom(this.seed ^ QUALITY_SEED_MASK);
+
+    const { store } = this;
+    store.clear();
+    store.reserve(particleCount);
+    for (let i = 0; i < particleCount; i++) {
+      this.spawnParticle();
+    }
+    this.accumulator = 0;
+    this.rebuildGrid();
+    this.savePreviousPositions();
+  }
+
+  /**
+   * Trades detail for speed. Unlike `particleCount`, the particle scale
+   * applies at once: the live count, including particles emitted or erased
+   * since init, is scaled by the change and particles are dropped from or
+   * scattered onto the running simulation.
+   */
+  setQuality(quality: QualitySettings) {
+    const scale = quality.particleScale / this.quality.particleScale;
+    this.quality = quality;
+
+    const { store } = this;
+    const target = Math.max(1, Math.round(store.count * scale));
+    if (store.count === 0 || target === store.count) return;
+
+    if (target < store.count) {
+      store.count = target;
+    } else {
+      store.reserve(target);
+      while (store.count < target) this.spawnParticle(this.qualityRandom);
+    }
+    this.rebuildGrid();
+    this.savePreviousPositions();
+  }
+
+  /** Changes the simulated area, moving the particles as `resizeMode` says. */
+  resize(width: number, height: number) {
+    // A hidden or collapsed container has no size to fit; keep the scene for when it's back
+    if (!(width > 0 && height > 0)) return;
+
+    const { store, previousX, previousY } = this;
+    const scaleX = this.width > 0 ? width / this.width : 1;
+    const scaleY = this.height > 0 ? height / this.height : 1;
+    this.width = width;
+    this.height = height;
+    if (store.count === 0 || (scaleX === 1 && scaleY === 1)) return;
+
+    // Previous positions move too, so the next frame doesn't blend across the jump
+    for (let i = 0; i < store.count; i++) {
+      if (this.options.resizeMode === 'stretch') {
+        store.x[i] *= scaleX;
+        store.y[i] *= scaleY;
+        previousX[i] *= scaleX;
+        previousY[i] *= scaleY;
+      } else {
+        store.x[i] = Math.min(Math.max(store.x[i], 0), width);
+        store.y[i] = Math.min(Math.max(store.y[i], 0), height);
+        previousX[i] = Math.min(Math.max(previousX[i], 0), width);
+        previousY[i] = Math.min(Math.max(previousY[i], 0), height);
+      }
+    }
+  }
+
+  getSeed() {
+    return this.seed;
+  }
+
+  /** Replaces the set of points pushing the fluid around (hands, pointers). */
+  setInteractors(interactors: HandPosition[]) {
+    this.interactors = interactors;
+  }
+
+  /**
+   * Runs as many fixed steps as `elapsedMs` of wall time covers and keeps
+   * the remainder for next time. Returns the number of steps taken.
+   */
+  advance(elapsedMs: number) {
+    const startTime = performance.now();
+    this.stats.neighborPairs = 0;
+    const { fixedTimestep } = this.options;
+    const stepMs = fixedTimestep * 1000;
+    const substeps = Math.max(1, Math.min(Math.round(this.options.substeps), this.quality.maxSubsteps));
+
+    // Clamp long gaps (background tabs, breakpoints) instead of fast-forwarding
+    const elapsed = Math.min(Math.max(elapsedMs, 0), MAX_FRAME_MS);
+    const frames = elapsed / FRAME_MS;
+    this.trackInteractorVelocities(frames);
+
+    this.accumulator += elapsed;
+    let steps = 0;
+    while (this.accumulator >= stepMs && steps < MAX_STEPS_PER_FRAME) {
+      this.savePreviousPositions();
+      for (let substep = 0; substep < substeps; substep++) {
+        this.step(fixedTimestep * 60 / substeps);
+      }
+      this.accumulator -= stepMs;
+      steps++;
+    }
+    // Still behind after the cap: drop the backlog rather than spiral
+    if (steps === MAX_STEPS_PER_FRAME) {
+      this.accumulator = Math.min(this.accumulator, stepMs);
+    }
+
+    this.renderAlpha = this.accumulator / stepMs;
+    this.renderFrames = frames;
+    this.stats.physicsMs = performance.now() - startTime;
+    return steps;
+  }
+
+  /** Advances the simulation by dt frames (1 = one 60Hz frame). */
+  step(dt: number = 1) {
+    this.applyBrushes(dt);
+    const { store, interactors, grid, random, width, height } = this;
+    const { interactionRadius, interactionStrength, solver } = this.options;
+    const count = store.count;
+
+    const velocities = interactors.map((hand, index) =>
+      hand.vx !== undefined && hand.vy !== undefined
+        ? { x: hand.vx, y: hand.vy }
+        : this.interactorVelocities[index] ?? { x: 0, y: 0 }
+    );
+    const applyInteractors = (index: number, strength: number) => {
+      for (let h = 0; h < interactors.length; h++) {
+        applyHandForce(store, index, interactors[h], velocities[h], interactionRadius, strength);
+      }
+    };
+    const pinned = this.holdPinned();
+
+    if (solver === 'sph') {
+      const sph = this.sph;
+      const substeps = Math.max(1, Math.min(Math.round(sph.params.substeps), this.quality.maxSubsteps));
+      const subDt = dt / substeps;
+
+      for (let step = 0; step < substeps; step++) {
+        // The first substep reuses the grid built at the end of the last step
+        if (step > 0) this.rebuildGrid();
+        sph.applyForces(store, grid, subDt);
+        this.stats.neighborPairs += sph.neighborPairs;
+
+        for (let i = 0; i < count; i++) {
+          applyInteractors(i, interactionStrength * subDt);
+
+          store.x[i] += store.vx[i] * subDt;
+          store.y[i] += store.vy[i] * subDt;
+          constrainToBounds(store, i, width, height);
+        }
+      }
+
+      for (let i = 0; i < count; i++) advanceLife(store, i, dt, random);
+    } else if (solver === 'pbf') {
+      for (let i = 0; i < count; i++) applyInteractors(i, interactionStrength * dt);
+
+      this.pbf.predict(store, dt);
+      this.pbf.solve(store, grid, width, height, dt);
+      this.stats.neighborPairs += this.pbf.neighborPairs;
+      for (let i = 0; i < count; i++) advanceLife(store, i, dt, random);
+    } else if (solver === 'flip') {
+      for (let i = 0; i < count; i++) applyInteractors(i, interactionStrength * dt);
+
+      this.flip.step(store, width, height, dt);
+      for (let i = 0; i < count; i++) advanceLife(store, i, dt, random);
+    } else if (solver === 'stable') {
+      const fluid = this.fluid;
+      fluid.resize(width, height);
+
+      // Drag the fluid along with each hand's motion
+      interactors.forEach((hand, index) => {
+        if (!isForceMode(hand.mode)) return;
+        const velocity = velocities[index];
+        fluid.splat(hand.x, hand.y, velocity.x, velocity.y, interactionRadius, interactionStrength * (hand.strength ?? 1) * dt);
+      });
+      fluid.step(dt);
+
+      const coupling = 1 - Math.pow(1 - fluid.params.tracerCoupling, dt);
+      for (let i = 0; i < count; i++) {
+        store.vx[i] += (fluid.sampleX(store.x[i], store.y[i]) - store.vx[i]) * coupling;
+        store.vy[i] += (fluid.sampleY(store.x[i], store.y[i]) - store.vy[i]) * coupling;
+
+        applyInteractors(i, interactionStrength * dt);
+
+        store.x[i] += store.vx[i] * dt;
+        store.y[i] += store.vy[i] * dt;
+        constrainToBounds(store, i, width, height);
+        advanceLife(store, i, dt, random);
+      }
+    } else {
+      const { x, y, vx, vy } = store;
+      const damping = Math.pow(0.995, dt);
+      // Random kicks add up like a random walk, so they scale with √dt
+      const drift = 0.05 * Math.sqrt(dt);
+      let pairs = 0;
+
+      for (let i = 0; i < count; i++) {
+        // Apply hand interaction
+        applyInteractors(i, interactionStrength * dt);
+
+        // Short-range separation between neighbours
+        grid.query(x[i], y[i], SEPARATION_DISTANCE, (j) => {
+          if (j === i) return;
+
+          const dx = x[j] - x[i];
+          const dy = y[j] - y[i];
+          const distance = Math.sqrt(dx * dx + dy * dy);
+
+          if (distance >= SEPARATION_DISTANCE) return;
+          pairs++;
+
+          // Separation force
+          if (distance > 0) {
+            const force = (SEPARATION_DISTANCE - distance) / SEPARATION_DISTANCE * 0.05 * dt;
+            vx[i] -= (dx / distance) * force;
+            vy[i] -= (dy / distance) * force;
+          }
+        });
+
+        // Apply velocity damping (gentler for floaty feel)
+        vx[i] *= damping;
+        vy[i] *= damping;
+
+        // Floating motion - gentle random drift instead of gravity
+        vx[i] += (random() - 0.5) * drift;
+        vy[i] += (random() - 0.5) * drift;
+
+        // Update position
+        x[i] += vx[i] * dt;
+        y[i] += vy[i] * dt;
+
+        constrainToBounds(store, i, width, height);
+        advanceLife(store, i, dt, random);
+      }
+      this.stats.neighborPairs += pairs;
+    }
+
+    if (pinned) this.restorePinned();
+
+    // Re-index the moved particles; the renderer's connection lines and the
+    // next step's first neighbour pass both query this grid
+    this.rebuildGrid();
+  }
+
+  /** Draws the current state, blended between the last two physics steps. */
+  render(renderer: ParticleRenderer) {
+    const startTime = performance.now();
+    const { store, interactors, grid, width, height } = this;
+    const { count } = store;
+    const alpha = this.renderAlpha;
+
+    // Interpolate positions between physics steps
+    if (this.renderX.length < count) {
+      this.renderX = new Float32Array(store.capacity);
+      this.renderY = new Float32Array(store.capacity);
+    }
+    const { renderX, renderY, previousX, previousY } = this;
+    for (let i = 0; i < count; i++) {
+      renderX[i] = previousX[i] + (store.x[i] - previousX[i]) * alpha;
+      renderY[i] = previousY[i] + (store.y[i] - previousY[i]) * alpha;
+    }
+
+    const { interactionRadius } = this.options;
+    const colors = this.colorMapper.update(store, grid, interactors, interactionRadius, this.colorParams, this.sph.params);
+
+    renderer.render({
+      store,
+      x: renderX,
+      y: renderY,
+      grid,
+      colors,
+      width,
+      height,
+      interactors,
+      interactionRadius,
+      elapsedFrames: this.renderFrames,
+      glow: this.quality.glow,
+      links: this.linkParams,
+      linkDistanceScale: this.quality.connectionScale,
+      surface: this.surfaceParams,
+    });
+
+    this.stats.renderMs = performance.now() - startTime;
+    this.stats.particleCount = count;
+    this.stats.colorMin = this.colorMapper.range.min;
+    this.stats.colorMax = this.colorMapper.range.max;
+  }
+
+  /** Drops the particles and scratch buffers; call init again to reuse the engine. */
+  dispose() {
+    this.store.clear();
+    this.interactors = [];
+    this.previousInteractors = [];
+    this.interactorVelocities = [];
+    this.previousX = new Float32Array(0);
+    this.previousY = new Float32Array(0);
+    this.heldX = new Float32Array(0);
+    this.heldY = new Float32Array(0);
+    this.renderX = new Float32Array(0);
+    this.renderY = new Float32Array(0);
+    this.accumulator = 0;
+  }
+
+  private scaledParticleCount() {
+    return Math.max(1, Math.round(this.options.particleCount * this.quality.particleScale));
+  }
+
+  // Appends one particle scattered over the current area
+  private spawnParticle(random: RandomSource = this.random) {
+    const { store, width, height } = this;
+    const index = store.add();
+    store.x[index] = random() * width;
+    store.y[index] = random() * height;
+    store.vx[index] = (random() - 0.5) * 2;
+    store.vy[index] = (random() - 0.5) * 2;
+    store.radius[index] = random() * 3 + 1;
+    store.colorIndex[index] = Math.floor(random() * store.palette.length);
+    store.alpha[index] = random() * 0.5 + 0.5;
+    store.life[index] = random() * 100;
+    store.maxLife[index] = 100 + random() * 100;
+  }
+
+  // Emit, erase and freeze brushes change the particles under them before the solver runs
+  private applyBrushes(dt: number) {
+    const { store, interactors, random } = this;
+    const { interactionRadius, interactionStrength } = this.options;
+    const radiusSq = interactionRadius * interactionRadius;
+    let changed = false;
+
+    for (const hand of interactors) {
+      const strength = interactionStrength * (hand.strength ?? 1);
+      if (!(strength > 0)) continue;
+      // Erasing and freezing catch each particle under the brush with this chance per frame
+      const chance = Math.min(1, strength * dt);
+
+      if (hand.mode === 'emit') {
+        // The fraction of a particle left over is the chance of one more
+        const amount = EMIT_RATE * strength * dt;
+        let spawns = Math.floor(amount) + (random() < amount % 1 ? 1 : 0);
+        for (; spawns > 0 && store.count < MAX_PARTICLES; spawns--) {
+          const angle = random() * Math.PI * 2;
+          const distance = Math.sqrt(random()) * interactionRadius;
+          this.emitParticle(hand.x + Math.cos(angle) * distance, hand.y + Math.sin(angle) * distance);
+          changed = true;
+        }
+      } else if (hand.mode === 'erase') {
+        // Backwards, so the particle swapped into a removed slot has been checked already
+        for (let i = store.count - 1; i >= 0; i--) {
+          const dx = store.x[i] - hand.x;
+          const dy = store.y[i] - hand.y;
+          if (dx * dx + dy * dy >= radiusSq || (chance < 1 && random() >= chance)) continue;
+          this.removeParticle(i);
+          changed = true;
+        }
+      } else if (hand.mode === 'freeze') {
+        for (let i = 0; i < store.count; i++) {
+          const dx = store.x[i] - hand.x;
+          const dy = store.y[i] - hand.y;
+          if (dx * dx + dy * dy >= radiusSq || (chance < 1 && random() >= chance)) continue;
+          store.pinned[i] = hand.isOpen ? 1 : 0;
+        }
+      }
+    }
+
+    if (changed) this.rebuildGrid();
+  }
+
+  // Appends a particle at a point, starting from there when rendering blends positions
+  private emitParticle(x: number, y: number) {
+    const { store } = this;
+    this.spawnParticle();
+    const index = store.count - 1;
+    store.x[index] = Math.min(Math.max(x, 0), this.width);
+    store.y[index] = Math.min(Math.max(y, 0), this.height);
+    store.life[index] = 0;
+
+    if (this.previousX.length < store.count) {
+      this.previousX = growFloats(this.previousX, store.capacity);
+      this.previousY = growFloats(this.previousY, store.capacity);
+    }
+    this.previousX[index] = store.x[index];
+    this.previousY[index] = store.y[index];
+  }
+
+  private removeParticle(index: number) {
+    const { store, previousX, previousY } = this;
+    const last = store.count - 1;
+    previousX[index] = previousX[last];
+    previousY[index] = previousY[last];
+    store.remove(index);
+  }
+
+  // Notes where pinned particles are so the solver can't move them; false when none are
+  private holdPinned() {
+    const { store } = this;
+    if (this.heldX.length < store.count) {
+      this.heldX = new Float32Array(store.capacity);
+      this.heldY = new Float32Array(store.capacity);
+    }
+    let any = false;
+    for (let i = 0; i < store.count; i++) {
+      if (!store.pinned[i]) continue;
+      this.heldX[i] = store.x[i];
+      this.heldY[i] = store.y[i];
+      any = true;
+    }
+    return any;
+  }
+
+  private restorePinned() {
+    const { store, heldX, heldY } = this;
+    for (let i = 0; i < store.count; i++) {
+      if (!store.pinned[i]) continue;
+      store.x[i] = heldX[i];
+      store.y[i] = heldY[i];
+      store.vx[i] = 0;
+      store.vy[i] = 0;
+    }
+  }
+
+  private rebuildGrid() {
+    const { store } = this;
+    this.grid.build(store.x, store.y, store.count, this.width, this.height);
+  }
+
+  // Copies positions before a fixed step so rendering can blend towards the new ones
+  private savePreviousPositions() {
+    const { store } = this;
+    if (this.previousX.length < store.count) {
+      this.previousX = new Float32Array(store.capacity);
+      this.previousY = new Float32Array(store.capacity);
+    }
+    this.previousX.set(store.x.subarray(0, store.count));
+    this.previousY.set(store.y.subarray(0, store.count));
+  }
+
+  // Each interactor's motion in px/frame since the last advance, by list position
+  private trackInteractorVelocities(frames: number) {
+    this.interactorVelocities = this.interactors.map((hand, index) => {
+      const previous = this.previousInteractors[index];
+      return previous && frames > 0
+        ? { x: (hand.x - previous.x) / frames, y: (hand.y - previous.y) / frames }
+        : { x: 0, y: 0 };
+    });
+    this.previousInteractors = this.interactors.map((hand) => ({ ...hand }));
+  }
+}
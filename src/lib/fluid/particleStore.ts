@@ -0,0 +1,180 @@
+import type { Particle } from './types';
+
+/**
+ * Particle state as one typed array per field (structure of arrays), so a
+ * frame touches flat buffers instead of thousands of small objects and the
+ * whole set can be copied or transferred in a few calls. Colours are stored
+ * as indices into `palette`. Capacity grows by doubling and never shrinks.
+ */
+export class ParticleStore {
+  count = 0;
+  palette: string[];
+
+  x = new Float32Array(0);
+  y = new Float32Array(0);
+  vx = new Float32Array(0);
+  vy = new Float32Array(0);
+  radius = new Float32Array(0);
+  alpha = new Float32Array(0);
+  life = new Float32Array(0);
+  maxLife = new Float32Array(0);
+  colorIndex = new Uint8Array(0);
+  // 1 while a freeze brush holds the particle in place
+  pinned = new Uint8Array(0);
+
+  private viewCache: ParticleView[] = [];
+  private viewList: ParticleView[] = [];
+
+  constructor(palette: string[], capacity: number = 0) {
+    this.palette = palette;
+    this.reserve(capacity);
+  }
+
+  get capacity() {
+    return this.x.length;
+  }
+
+  /** Makes room for at least `capacity` particles, keeping the current ones. */
+  reserve(capacity: number) {
+    if (capacity <= this.capacity) return;
+
+    const size = Math.max(capacity, this.capacity * 2);
+    this.x = grow(this.x, size);
+    this.y = grow(this.y, size);
+    this.vx = grow(this.vx, size);
+    this.vy = grow(this.vy, size);
+    this.radius = grow(this.radius, size);
+    this.alpha = grow(this.alpha, size);
+    this.life = grow(this.life, size);
+    this.maxLife = grow(this.maxLife, size);
+    this.colorIndex = growBytes(this.colorIndex, size);
+    this.pinned = growBytes(this.pinned, size);
+  }
+
+  /** Appends a particle with every field zeroed and returns its index. */
+  add() {
+    const index = this.count;
+    this.reserve(index + 1);
+    this.x[index] = 0;
+    this.y[index] = 0;
+    this.vx[index] = 0;
+    this.vy[index] = 0;
+    this.radius[index] = 0;
+    this.alpha[index] = 0;
+    this.life[index] = 0;
+    this.maxLife[index] = 0;
+    this.colorIndex[index] = 0;
+    this.pinned[index] = 0;
+    this.count++;
+    return index;
+  }
+
+  /**
+   * Removes a particle by moving the last one into its slot. Only the last
+   * particle's index changes; it becomes `index`.
+   */
+  remove(index: number) {
+    const last = this.count - 1;
+    if (index < 0 || index > last) return;
+
+    if (index !== last) {
+      this.x[index] = this.x[last];
+      this.y[index] = this.y[last];
+      this.vx[index] = this.vx[last];
+      this.vy[index] = this.vy[last];
+      this.radius[index] = this.radius[last];
+      this.alpha[index] = this.alpha[last];
+      this.life[index] = this.life[last];
+      this.maxLife[index] = this.maxLife[last];
+      this.colorIndex[index] = this.colorIndex[last];
+      this.pinned[index] = this.pinned[last];
+    }
+    this.count = last;
+  }
+
+  clear() {
+    this.count = 0;
+  }
+
+  /** A live `Particle` over one slot; reads and writes go straight to the buffers. */
+  get(index: number): Particle {
+    while (this.viewCache.length <= index) {
+      this.viewCache.push(new ParticleView(this, this.viewCache.length));
+    }
+    return this.viewCache[index];
+  }
+
+  /**
+   * Views over every live particle, for code written against `Particle`
+   * objects. The array and its views are reused until the count changes.
+   */
+  views(): Particle[] {
+    if (this.viewList.length !== this.count) {
+      if (this.count > 0) this.get(this.count - 1);
+      this.viewList = this.viewCache.slice(0, this.count);
+    }
+    return this.viewList;
+  }
+
+  colorOf(index: number) {
+    return this.palette[this.colorIndex[index]];
+  }
+}
+
+function grow(array: Float32Array, size: number) {
+  const grown = new Float32Array(size);
+  grown.set(array);
+  return grown;
+}
+
+function growBytes(array: Uint8Array, size: number) {
+  const grown = new Uint8Array(size);
+  grown.set(array);
+  return grown;
+}
+
+class ParticleView implements Particle {
+  private store: ParticleStore;
+  private index: number;
+
+  constructor(store: ParticleStore, index: number) {
+    this.store = store;
+    this.index = index;
+  }
+
+  get x() { return this.store.x[this.index]; }
+  set x(value: number) { this.store.x[this.index] = value; }
+
+  get y() { return this.store.y[this.index]; }
+  set y(value: number) { this.store.y[this.index] = value; }
+
+  get vx() { return this.store.vx[this.index]; }
+  set vx(value: number) { this.store.vx[this.index] = value; }
+
+  get vy() { return this.store.vy[this.index]; }
+  set vy(value: number) { this.store.vy[this.index] = value; }
+
+  get radius() { return this.store.radius[this.index]; }
+  set radius(value: number) { this.store.radius[this.index] = value; }
+
+  get alpha() { return this.store.alpha[this.index]; }
+  set alpha(value: number) { this.store.alpha[this.index] = value; }
+
+  get life() { return this.store.life[this.index]; }
+  set life(value: number) { this.store.life[this.index] = value; }
+
+  get maxLife() { return this.store.maxLife[this.index]; }
+  set maxLife(value: number) { this.store.maxLife[this.index] = value; }
+
+  get color() { return this.store.colorOf(this.index); }
+
+  // Unknown colours join the palette so the view still round-trips
+  set color(value: string) {
+    const { palette } = this.store;
+    let paletteIndex = palette.indexOf(value);
+    if (paletteIndex < 0 && palette.length < 256) {
+      paletteIndex = palette.push(value) - 1;
+    }
+    if (paletteIndex >= 0) this.store.colorIndex[this.index] = paletteIndex;
+  }
+}
@@ -0,0 +1,320 @@
+import { SpatialHash } from './spatialHash';
+import { constrainToBounds } from './bounds';
+import { poly6Coefficient, spikyGradCoefficient } from './kernels';
+import type { FluidBuffers } from './types';
+
+export interface PbfParams {
+  // Kernel support radius h in px
+  smoothingRadius: number;
+  // Density the constraint holds the fluid at (1 = particles packed h/2 apart)
+  restDensity: number;
+  // Constraint projection passes per frame; more keeps volume more exactly
+  iterations: number;
+  // Constraint force mixing ε, keeps λ finite for isolated particles
+  relaxation: number;
+  // Artificial pressure s_corr = -k * (W(r) / W(Δq))^n against clumping
+  tensileK: number;
+  tensileN: number;
+  // Δq as a fraction of h
+  tensileDeltaQ: number;
+  // XSPH blend towards the neighbourhood velocity, 0 to 1
+  xsphViscosity: number;
+  // Vorticity confinement strength ε
+  vorticity: number;
+  // Downward acceleration in px/frame²
+  gravity: number;
+}
+
+export const DEFAULT_PBF_PARAMS: PbfParams = {
+  smoothingRadius: 16,
+  restDensity: 1,
+  iterations: 4,
+  relaxation: 0.005,
+  tensileK: 0.1,
+  tensileN: 4,
+  tensileDeltaQ: 0.2,
+  xsphViscosity: 0.05,
+  vorticity: 0.5,
+  gravity: 0.2,
+};
+
+/**
+ * Position Based Fluids (Macklin & Müller 2013). A frame is split in two so
+ * the caller can add its own forces in between: `predict` integrates
+ * gravity into tentative positions, `solve` projects them onto the density
+ * constraint and derives the new velocities. Uses the same (h/2)² particle
+ * mass as the SPH solver, so rest densities mean the same in both.
+ */
+export class PbfSolver {
+  params: PbfParams;
+  // Pairs closer than h found by the last solve, each counted from both ends
+  neighborPairs = 0;
+
+  private prevX = new Float32Array(0);
+  private prevY = new Float32Array(0);
+  private lambda = new Float32Array(0);
+  private deltaX = new Float32Array(0);
+  private deltaY = new Float32Array(0);
+  private omega = new Float32Array(0);
+  private neighborStart = new Int32Array(1);
+  private neighbors = new Int32Array(0);
+
+  constructor(params: Partial<PbfParams> = {}) {
+    this.params = { ...DEFAULT_PBF_PARAMS, ...params };
+  }
+
+  /** Remembers current positions, then moves particles to their predicted positions. */
+  predict(particles: FluidBuffers, dt: number) {
+    const { count, x, y, vx, vy } = particles;
+    this.ensureCapacity(count);
+
+    for (let i = 0; i < count; i++) {
+      this.prevX[i] = x[i];
+      this.prevY[i] = y[i];
+      vy[i] += this.params.gravity * dt;
+      x[i] += vx[i] * dt;
+      y[i] += vy[i] * dt;
+    }
+  }
+
+  /**
+   * Enforces incompressibility on the predicted positions and rewrites the
+   * velocities from the corrected displacement. `grid` is rebuilt here.
+   */
+  solve(particles: FluidBuffers, grid: SpatialHash, width: number, height: number, dt: number) {
+    const { smoothingRadius: h, restDensity, relaxation, tensileK, tensileN, tensileDeltaQ } = this.params;
+    const { count, x, y, vx, vy } = particles;
+    const h2 = h * h;
+    const mass = h2 / 4;
+    const poly6 = poly6Coefficient(h);
+    const spikyGrad = spikyGradCoefficient(h);
+    const dq2 = (tensileDeltaQ * h) ** 2;
+    const wDeltaQ = poly6 * (h2 - dq2) ** 3;
+    const iterations = Math.max(1, Math.round(this.params.iterations));
+
+    for (let i = 0; i < count; i++) {
+      constrainToBounds(particles, i, width, height);
+    }
+    grid.build(x, y, count, width, height);
+    this.findNeighbors(particles, grid, h);
+
+    const { lambda, deltaX, deltaY, neighborStart, neighbors } = this;
+
+    for (let iteration = 0; iteration < iterations; iteration++) {
+      // λ_i = -C_i / (Σ|∇C_i|² + ε) with C_i = ρ_i / ρ0 - 1
+      for (let i = 0; i < count; i++) {
+        const xi = x[i];
+        const yi = y[i];
+        let rho = mass * poly6 * h2 * h2 * h2;
+        let gradSumX = 0;
+        let gradSumY = 0;
+        let gradNormSum = 0;
+
+        for (let k = neighborStart[i]; k < neighborStart[i + 1]; k++) {
+          const j = neighbors[k];
+          const dx = xi - x[j];
+          const dy = yi - y[j];
+          const r2 = dx * dx + dy * dy;
+          if (r2 >= h2) continue;
+
+          const w = h2 - r2;
+          rho += mass * poly6 * w * w * w;
+
+          const r = Math.sqrt(r2);
+          if (r > 0) {
+            const q = h - r;
+            const grad = mass / restDensity * spikyGrad * q * q / r;
+            gradSumX += grad * dx;
+            gradSumY += grad * dy;
+            gradNormSum += grad * grad * r2;
+          }
+        }
+
+        const constraint = rho / restDensity - 1;
+        gradNormSum += gradSumX * gradSumX + gradSumY * gradSumY;
+        lambda[i] = -constraint / (gradNormSum + relaxation);
+      }
+
+      // Δp_i = 1/ρ0 Σ (λ_i + λ_j + s_corr) ∇W
+      for (let i = 0; i < count; i++) {
+        const xi = x[i];
+        const yi = y[i];
+        let sumX = 0;
+        let sumY = 0;
+
+        for (let k = neighborStart[i]; k < neighborStart[i + 1]; k++) {
+          const j = neighbors[k];
+          const dx = xi - x[j];
+          const dy = yi - y[j];
+          const r2 = dx * dx + dy * dy;
+          if (r2 >= h2 || r2 === 0) continue;
+
+          const w = h2 - r2;
+          const sCorr = -tensileK * Math.pow(poly6 * w * w * w / wDeltaQ, tensileN);
+          const r = Math.sqrt(r2);
+          const q = h - r;
+          const grad = mass * spikyGrad * q * q / r;
+          const scale = (lambda[i] + lambda[j] + sCorr) * grad;
+          sumX += scale * dx;
+          sumY += scale * dy;
+        }
+
+        deltaX[i] = sumX / restDensity;
+        deltaY[i] = sumY / restDensity;
+      }
+
+      for (let i = 0; i < count; i++) {
+        x[i] += deltaX[i];
+        y[i] += deltaY[i];
+        constrainToBounds(particles, i, width, height);
+      }
+    }
+
+    for (let i = 0; i < count; i++) {
+      vx[i] = (x[i] - this.prevX[i]) / dt;
+      vy[i] = (y[i] - this.prevY[i]) / dt;
+    }
+
+    this.applyVorticityConfinement(particles, dt);
+    this.applyXsphViscosity(particles);
+  }
+
+  private applyVorticityConfinement(particles: FluidBuffers, dt: number) {
+    const { smoothingRadius: h, restDensity, vorticity } = this.params;
+    if (vorticity <= 0) return;
+
+    const { count, x, y, vx, vy } = particles;
+    const h2 = h * h;
+    const mass = h2 / 4;
+    const spikyGrad = spikyGradCoefficient(h);
+    const { omega, neighborStart, neighbors } = this;
+
+    // Scalar curl ω_i = Σ (m/ρ0) (v_j - v_i) × ∇_j W
+    for (let i = 0; i < count; i++) {
+      const xi = x[i];
+      const yi = y[i];
+      let curl = 0;
+      for (let k = neighborStart[i]; k < neighborStart[i + 1]; k++) {
+        const j = neighbors[k];
+        const dx = xi - x[j];
+        const dy = yi - y[j];
+        const r2 = dx * dx + dy * dy;
+        if (r2 >= h2 || r2 === 0) continue;
+
+        const r = Math.sqrt(r2);
+        const q = h - r;
+        // ∇_j W(p_i - p_j) = -∇_i W
+        const grad = -mass / restDensity * spikyGrad * q * q / r;
+        curl += (vx[j] - vx[i]) * (grad * dy) - (vy[j] - vy[i]) * (grad * dx);
+      }
+      omega[i] = curl;
+    }
+
+    // f = ε (N × ω) with N the normalised gradient of |ω|
+    for (let i = 0; i < count; i++) {
+      const xi = x[i];
+      const yi = y[i];
+      let etaX = 0;
+      let etaY = 0;
+      for (let k = neighborStart[i]; k < neighborStart[i + 1]; k++) {
+        const j = neighbors[k];
+        const dx = xi - x[j];
+        const dy = yi - y[j];
+        const r2 = dx * dx + dy * dy;
+        if (r2 >= h2 || r2 === 0) continue;
+
+        const r = Math.sqrt(r2);
+        const q = h - r;
+        const grad = mass / restDensity * spikyGrad * q * q / r;
+        etaX += Math.abs(omega[j]) * grad * dx;
+        etaY += Math.abs(omega[j]) * grad * dy;
+      }
+
+      const length = Math.sqrt(etaX * etaX + etaY * etaY);
+      if (length < 1e-6) continue;
+
+      const nx = etaX / length;
+      const ny = etaY / length;
+      vx[i] += vorticity * ny * omega[i] * dt;
+      vy[i] -= vorticity * nx * omega[i] * dt;
+    }
+  }
+
+  private applyXsphViscosity(particles: FluidBuffers) {
+    const { smoothingRadius: h, restDensity, xsphViscosity } = this.params;
+    if (xsphViscosity <= 0) return;
+
+    const { count, x, y, vx, vy } = particles;
+    const h2 = h * h;
+    const mass = h2 / 4;
+    const poly6 = poly6Coefficient(h);
+    const { deltaX, deltaY, neighborStart, neighbors } = this;
+
+    for (let i = 0; i < count; i++) {
+      const xi = x[i];
+      const yi = y[i];
+      let sumX = 0;
+      let sumY = 0;
+      for (let k = neighborStart[i]; k < neighborStart[i + 1]; k++) {
+        const j = neighbors[k];
+        const dx = xi - x[j];
+        const dy = yi - y[j];
+        const r2 = dx * dx + dy * dy;
+        if (r2 >= h2) continue;
+
+        const w = h2 - r2;
+        const weight = mass / restDensity * poly6 * w * w * w;
+        sumX += (vx[j] - vx[i]) * weight;
+        sumY += (vy[j] - vy[i]) * weight;
+      }
+      // Buffer the corrections so every particle blends against the same velocities
+      deltaX[i] = sumX * xsphViscosity;
+      deltaY[i] = sumY * xsphViscosity;
+    }
+
+    for (let i = 0; i < count; i++) {
+      vx[i] += deltaX[i];
+      vy[i] += deltaY[i];
+    }
+  }
+
+  // Neighbour lists are gathered once per frame and reused by every pass
+  private findNeighbors(particles: FluidBuffers, grid: SpatialHash, h: number) {
+    const { count, x, y } = particles;
+    const h2 = h * h;
+    let total = 0;
+
+    for (let i = 0; i < count; i++) {
+      const xi = x[i];
+      const yi = y[i];
+      this.neighborStart[i] = total;
+      grid.query(xi, yi, h, (j) => {
+        if (j === i) return;
+        const dx = x[j] - xi;
+        const dy = y[j] - yi;
+        if (dx * dx + dy * dy >= h2) return;
+
+        if (total >= this.neighbors.length) {
+          const grown = new Int32Array(Math.max(64, this.neighbors.length * 2));
+          grown.set(this.neighbors);
+          this.neighbors = grown;
+        }
+        this.neighbors[total++] = j;
+      });
+    }
+    this.neighborStart[count] = total;
+    this.neighborPairs = total;
+  }
+
+  private ensureCapacity(count: number) {
+    if (this.prevX.length >= count) return;
+
+    this.prevX = new Float32Array(count);
+    this.prevY = new Float32Array(count);
+    this.lambda = new Float32Array(count);
+    this.deltaX = new Float32Array(count);
+    this.deltaY = new Float32Array(count);
+    this.omega = new Float32Array(count);
+    this.neighborStart = new Int32Array(count + 1);
+  }
+}
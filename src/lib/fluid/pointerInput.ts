@@ -0,0 +1,221 @@
+import type { HandPosition } from './particleEngine';
+import { TOOLS, type PointerTool } from './tools';
+
+// A finger held within HOLD_SLOP px for HOLD_MS inverts the tool, e.g. from repelling to attracting
+const HOLD_MS = 350;
+const HOLD_SLOP = 10;
+// Pen pressure that gives the normal interaction strength; harder presses push up to twice as hard
+const NEUTRAL_PRESSURE = 0.5;
+const MAX_PRESSURE_STRENGTH = 2;
+
+// Velocities are in px per 60Hz frame, like the engine's
+const FRAME_MS = 1000 / 60;
+// Share of each new velocity sample that's blended in, to smooth out uneven event timing
+const VELOCITY_SMOOTHING = 0.5;
+// A pointer with no moves for this long counts as still
+const STILL_MS = 50;
+
+// The secondary (barrel) button of a pen, or the right mouse button
+const SECONDARY_BUTTON = 2;
+
+interface PointerState {
+  x: number;
+  y: number;
+  startX: number;
+  startY: number;
+  // Touches invert the tool after a hold, mice while pressed and pens with the barrel button
+  inverted: boolean;
+  // In contact, or for a mouse, with a button down
+  pressed: boolean;
+  holdTimer: number;
+  vx: number;
+  vy: number;
+  // Event time of the last position, for the velocity
+  time: number;
+  stillTimer: number;
+  strength: number;
+  direction?: { x: number; y: number };
+}
+
+/**
+ * Turns Pointer Events on an element into engine interactors, treating
+ * mouse, touch and pen alike. With the default repel tool a hovering
+ * mouse repels and attracts while pressed. Each finger repels until held
+ * still for a moment, then attracts until lifted. A pen repels on contact
+ * (attracting with its barrel button), pushes harder the harder it's
+ * pressed and sweeps particles the way it leans. Other tools invert the
+ * same way; brushes act only while pressed, with the right mouse button
+ * as their inverse, and a hovering mouse previews them at zero strength.
+ *
+ * Each pointer also reports its velocity, which the drag tool uses to
+ * carry particles along with a stroke.
+ *
+ * State lives here rather than in React, and `onChange` gets every
+ * update, so input never causes a re-render.
+ */
+export class PointerInput {
+  // How every pointer acts on the fluid; read on each update
+  tool: PointerTool = TOOLS[0];
+
+  private pointers = new Map<number, PointerState>();
+
+  constructor(
+    private element: HTMLElement,
+    private onChange: (interactors: HandPosition[]) => void
+  ) {
+    element.addEventListener('pointerdown', this.handleDown);
+    element.addEventListener('pointermove', this.handleMove);
+    element.addEventListener('pointerup', this.handleUp);
+    element.addEventListener('pointercancel', this.handleEnd);
+    element.addEventListener('pointerleave', this.handleEnd);
+    element.addEventListener('contextmenu', this.handleContextMenu);
+  }
+
+  /** Stops listening and lifts any pointer still down. */
+  dispose() {
+    const { element } = this;
+    element.removeEventListener('pointerdown', this.handleDown);
+    element.removeEventListener('pointermove', this.handleMove);
+    element.removeEventListener('pointerup', this.handleUp);
+    element.removeEventListener('pointercancel', this.handleEnd);
+    element.removeEventListener('pointerleave', this.handleEnd);
+    element.removeEventListener('contextmenu', this.handleContextMenu);
+
+    if (this.pointers.size === 0) return;
+    this.pointers.forEach((state) => {
+      window.clearTimeout(state.holdTimer);
+      window.clearTimeout(state.stillTimer);
+    });
+    this.pointers.clear();
+    this.emit();
+  }
+
+  private handleDown = (event: PointerEvent) => {
+    const state = this.track(event);
+    state.startX = state.x;
+    state.startY = state.y;
+
+    if (event.pointerType === 'touch') {
+      window.clearTimeout(state.holdTimer);
+      state.holdTimer = window.setTimeout(() => {
+        state.inverted = true;
+        this.emit();
+      }, HOLD_MS);
+    }
+    // Keep getting moves for this pointer if it slides off the element while down
+    this.element.setPointerCapture?.(event.pointerId);
+    this.emit();
+  };
+
+  private handleMove = (event: PointerEvent) => {
+    // Touches and pens only act while in contact
+    if (event.pointerType !== 'mouse' && !this.pointers.has(event.pointerId)) return;
+
+    const state = this.track(event);
+    // Moving off before the hold completes makes it a push stroke
+    if (event.pointerType === 'touch' && !state.inverted &&
+      Math.hypot(state.x - state.startX, state.y - state.startY) > HOLD_SLOP) {
+      window.clearTimeout(state.holdTimer);
+    }
+    this.emit();
+  };
+
+  // A mouse keeps hovering after its button comes up; anything else lifts off
+  private handleUp = (event: PointerEvent) => {
+    if (event.pointerType === 'mouse') {
+      this.track(event);
+      this.emit();
+    } else {
+      this.handleEnd(event);
+    }
+  };
+
+  private handleEnd = (event: PointerEvent) => {
+    const state = this.pointers.get(event.pointerId);
+    if (!state) return;
+
+    window.clearTimeout(state.holdTimer);
+    window.clearTimeout(state.stillTimer);
+    this.pointers.delete(event.pointerId);
+    this.emit();
+  };
+
+  // The right button inverts brushes, so it mustn't open a menu
+  private handleContextMenu = (event: Event) => {
+    event.preventDefault();
+  };
+
+  // Creates or updates the pointer's state from the event
+  private track(event: PointerEvent) {
+    const rect = this.element.getBoundingClientRect();
+    const x = event.clientX - rect.left;
+    const y = event.clientY - rect.top;
+    let state = this.pointers.get(event.pointerId);
+    if (!state) {
+      state = {
+        x,
+        y,
+        startX: x,
+        startY: y,
+        inverted: false,
+        pressed: false,
+        holdTimer: 0,
+        vx: 0,
+        vy: 0,
+        time: event.timeStamp,
+        stillTimer: 0,
+        strength: 1,
+      };
+      this.pointers.set(event.pointerId, state);
+    }
+
+    const frames = (event.timeStamp - state.time) / FRAME_MS;
+    if (frames > 0) {
+      state.vx += ((x - state.x) / frames - state.vx) * VELOCITY_SMOOTHING;
+      state.vy += ((y - state.y) / frames - state.vy) * VELOCITY_SMOOTHING;
+    }
+    state.x = x;
+    state.y = y;
+    state.time = event.timeStamp;
+
+    // No further moves means the pointer stopped, not that it keeps its last speed
+    const still = state;
+    window.clearTimeout(state.stillTimer);
+    state.stillTimer = window.setTimeout(() => {
+      still.vx = 0;
+      still.vy = 0;
+      this.emit();
+    }, STILL_MS);
+
+    state.pressed = event.pointerType !== 'mouse' || event.buttons !== 0;
+    if (event.pointerType === 'mouse') {
+      // Hover tools invert on any press; brushes need the press to act, so only the right button inverts them
+      state.inverted = this.tool.hover ? state.pressed : (event.buttons & SECONDARY_BUTTON) !== 0;
+    } else if (event.pointerType === 'pen') {
+      state.inverted = (event.buttons & SECONDARY_BUTTON) !== 0;
+      state.strength = Math.min(event.pressure / NEUTRAL_PRESSURE, MAX_PRESSURE_STRENGTH);
+      state.direction = tiltDirection(event.tiltX, event.tiltY);
+    }
+    return state;
+  }
+
+  private emit() {
+    const { mode, isOpen, hover } = this.tool;
+    const interactors: HandPosition[] = [];
+    this.pointers.forEach((state) => {
+      const { x, y, vx, vy, inverted, direction } = state;
+      // A brush only paints while pressed; a hovering mouse shows where it would at strength 0
+      const strength = hover || state.pressed ? state.strength : 0;
+      interactors.push({ x, y, vx, vy, isOpen: isOpen !== inverted, mode, strength, direction });
+    });
+    this.onChange(interactors);
+  }
+}
+
+// How far and which way a pen leans, as a vector no longer than 1; upright is zero
+function tiltDirection(tiltX: number, tiltY: number) {
+  const x = Math.sin((tiltX || 0) * Math.PI / 180);
+  const y = Math.sin((tiltY || 0) * Math.PI / 180);
+  const length = Math.hypot(x, y);
+  return length > 1 ? { x: x / length, y: y / length } : { x, y };
+}
@@ -0,0 +1,104 @@
+// What the engine trades away to keep up with the display
+export interface QualitySettings {
+  // Fraction of the requested particle count that is simulated
+  particleScale: number;
+  // Fraction of the full connection-line distance, 0 hides the lines
+  connectionScale: number;
+  // Radial-gradient halo around every particle
+  glow: boolean;
+  // Upper bound on solver substeps per fixed step
+  maxSubsteps: number;
+}
+
+export interface QualityTier extends QualitySettings {
+  name: string;
+}
+
+// Cheapest first
+export const QUALITY_TIERS: QualityTier[] = [
+  { name: 'Minimal', particleScale: 0.4, connectionScale: 0, glow: false, maxSubsteps: 2 },
+  { name: 'Low', particleScale: 0.6, connectionScale: 0.6, glow: false, maxSubsteps: 2 },
+  { name: 'Medium', particleScale: 0.8, connectionScale: 0.8, glow: true, maxSubsteps: 3 },
+  { name: 'High', particleScale: 1, connectionScale: 1, glow: true, maxSubsteps: Infinity },
+  { name: 'Ultra', particleScale: 1.5, connectionScale: 1, glow: true, maxSubsteps: Infinity },
+];
+
+// The tier used when adaptation is off: everything exactly as configured
+export const DEFAULT_QUALITY_TIER = 3;
+
+// Weight of the newest frame in the running averages
+const SMOOTHING = 0.05;
+// Frames to wait after a change before judging the new tier
+const DOWN_COOLDOWN_FRAMES = 60;
+const UP_COOLDOWN_FRAMES = 180;
+
+/**
+ * Picks a quality tier that keeps frames within the budget of a target
+ * frame rate. Fed the interval between frames and the time the frame's own
+ * work took: a long interval alone can just be a slow display, so dropping
+ * a tier also needs the work to be a real share of the budget, and raising
+ * one needs plenty of room left over. Cooldowns keep it from flapping.
+ */
+export class QualityController {
+  private targetFps = 0;
+  private tierIndex = DEFAULT_QUALITY_TIER;
+  private intervalAverage = 0;
+  private workAverage = 0;
+  private framesSinceChange = 0;
+
+  get tier() {
+    return QUALITY_TIERS[this.tierIndex];
+  }
+
+  /**
+   * Sets the frame rate to aim for; 0 turns adaptation off and returns to
+   * the default tier. Returns the new tier when that changes it.
+   */
+  setTargetFps(targetFps: number): QualityTier | null {
+    if (targetFps === this.targetFps) return null;
+
+    this.targetFps = targetFps;
+    this.reset();
+    if (targetFps > 0 || this.tierIndex === DEFAULT_QUALITY_TIER) return null;
+
+    this.tierIndex = DEFAULT_QUALITY_TIER;
+    return this.tier;
+  }
+
+  /** Records one frame. Returns the new tier when it changes. */
+  sample(intervalMs: number, workMs: number): QualityTier | null {
+    if (this.targetFps <= 0) return null;
+
+    if (this.framesSinceChange === 0) {
+      this.intervalAverage = intervalMs;
+      this.workAverage = workMs;
+    } else {
+      this.intervalAverage += (intervalMs - this.intervalAverage) * SMOOTHING;
+      this.workAverage += (workMs - this.workAverage) * SMOOTHING;
+    }
+    this.framesSinceChange++;
+
+    const budget = 1000 / this.targetFps;
+    const overBudget = (this.intervalAverage > budget * 1.2 && this.workAverage > budget * 0.5) ||
+      this.workAverage > budget * 0.9;
+    const underBudget = this.workAverage < budget * 0.4;
+
+    if (overBudget && this.tierIndex > 0 && this.framesSinceChange >= DOWN_COOLDOWN_FRAMES) {
+      this.tierIndex--;
+      this.reset();
+      return this.tier;
+    }
+    if (underBudget && this.tierIndex < QUALITY_TIERS.length - 1 && this.framesSinceChange >= UP_COOLDOWN_FRAMES) {
+      this.tierIndex++;
+      this.reset();
+      return this.tier;
+    }
+    return null;
+  }
+
+  private reset() {
+    this.framesSinceChange = 0;
+    this.intervalAverage = 0;
+    this.workAverage = 0;
+  }
+}
@@ -0,0 +1,22 @@
+// A source of uniform numbers in [0, 1), drop-in for Math.random
+export type RandomSource = () => number;
+
+/**
+ * Seeded generator (mulberry32). The same seed always yields the same
+ * sequence, which is what makes a run reproducible.
+ */
+export function createRandom(seed: number): RandomSource {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// A fresh 32-bit seed for when the caller doesn't pick one
+export function randomSeed() {
+  return Math.floor(Math.random() * 4294967296);
+}
@@ -0,0 +1,75 @@
+import type { HandPosition } from './particleEngine';
+import type { ParticleStore } from './particleStore';
+import type { SpatialHash } from './spatialHash';
+import type { LinkParams } from './links';
+import type { SurfaceParams } from './surface';
+
+export type RendererKind = 'canvas2d' | 'webgl2' | 'svg';
+
+export type RenderingContext = CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D;
+
+export type RenderSurface = HTMLCanvasElement | OffscreenCanvas;
+
+// The colour each particle is drawn in, as an index into `palette`
+export interface ParticleColors {
+  palette: readonly string[];
+  colorIndex: Uint8Array;
+}
+
+// Everything a backend needs to draw one frame
+export interface RenderFrame {
+  store: ParticleStore;
+  // Positions blended between the last two physics steps, `store.count` long
+  x: Float32Array;
+  y: Float32Array;
+  // Indexes the store's current positions, for neighbour lookups
+  grid: SpatialHash;
+  // The store's own spawn colours, or a colour map's
+  colors: ParticleColors;
+  // World size in CSS px; backends scale to their surface's pixel size
+  width: number;
+  height: number;
+  interactors: HandPosition[];
+  interactionRadius: number;
+  // 60Hz frames since the previous render, for frame-rate independent trails
+  elapsedFrames: number;
+  glow: boolean;
+  links: LinkParams;
+  linkDistanceScale: number;
+  // When enabled, replaces the particles with a traced liquid surface
+  surface: SurfaceParams;
+}
+
+export interface ParticleRenderer {
+  readonly kind: RendererKind;
+  // The canvas the renderer was created for
+  readonly surface: RenderSurface;
+  render(frame: RenderFrame): void;
+  dispose(): void;
+}
+
+// The look every backend reproduces
+export const BACKGROUND_RGB = [8, 12, 18] as const;
+// Share of the previous frame a 60Hz frame fades out
+export const TRAIL_FADE = 0.15;
+// The glow reaches this many core radii from a particle's centre
+export const GLOW_SCALE = 3;
+export const HAND_DOT_RADIUS = 8;
+export const HAND_GLOW_OPACITY = 0.5;
+
+export function trailFadeOpacity(elapsedFrames: number) {
+  return 1 - Math.pow(1 - TRAIL_FADE, elapsedFrames);
+}
+
+// Particles fade in and out over their life
+export function particleOpacity(store: ParticleStore, index: number) {
+  return store.alpha[index] * Math.sin((store.life[index] / store.maxLife[index]) * Math.PI);
+}
+
+export function handGlowColor(hand: HandPosition) {
+  return hand.isOpen ? 'rgba(0, 255, 200, 0.3)' : 'rgba(255, 100, 200, 0.3)';
+}
+
+export function handDotColor(hand: HandPosition) {
+  return hand.isOpen ? 'hsl(175, 100%, 50%)' : 'hsl(320, 80%, 60%)';
+}
@@ -0,0 +1,93 @@
+/**
+ * Uniform grid over the canvas used to find nearby particles without
+ * comparing every pair. Rebuilt once per frame with a counting sort, so
+ * building and querying never allocate once the buffers have grown.
+ */
+export class SpatialHash {
+  cellSize: number;
+
+  private cols = 0;
+  private rows = 0;
+  private cellStart = new Int32Array(1);
+  private cellCount = new Int32Array(0);
+  private entries = new Int32Array(0);
+  private particleCell = new Int32Array(0);
+
+  constructor(cellSize: number) {
+    this.cellSize = cellSize;
+  }
+
+  /** Indexes the first `count` points of the coordinate arrays. */
+  build(x: ArrayLike<number>, y: ArrayLike<number>, count: number, width: number, height: number) {
+    this.cols = Math.max(1, Math.ceil(width / this.cellSize));
+    this.rows = Math.max(1, Math.ceil(height / this.cellSize));
+    const cellTotal = this.cols * this.rows;
+
+    if (this.cellCount.length < cellTotal) {
+      this.cellCount = new Int32Array(cellTotal);
+      this.cellStart = new Int32Array(cellTotal + 1);
+    } else {
+      this.cellCount.fill(0, 0, cellTotal);
+    }
+    if (this.entries.length < count) {
+      this.entries = new Int32Array(count);
+      this.particleCell = new Int32Array(count);
+    }
+
+    for (let i = 0; i < count; i++) {
+      const cell = this.cellIndex(x[i], y[i]);
+      this.particleCell[i] = cell;
+      this.cellCount[cell]++;
+    }
+
+    let offset = 0;
+    for (let c = 0; c < cellTotal; c++) {
+      this.cellStart[c] = offset;
+      offset += this.cellCount[c];
+      this.cellCount[c] = 0;
+    }
+    this.cellStart[cellTotal] = offset;
+
+    for (let i = 0; i < count; i++) {
+      const cell = this.particleCell[i];
+      this.entries[this.cellStart[cell] + this.cellCount[cell]++] = i;
+    }
+  }
+
+  /**
+   * Calls `callback` with the index of every particle in the cells that
+   * overlap the circle. Candidates can lie slightly outside `radius`, so
+   * callers still check the exact distance.
+   */
+  query(x: number, y: number, radius: number, callback: (index: number) => void) {
+    const minCol = this.clampCol(Math.floor((x - radius) / this.cellSize));
+    const maxCol = this.clampCol(Math.floor((x + radius) / this.cellSize));
+    const minRow = this.clampRow(Math.floor((y - radius) / this.cellSize));
+    const maxRow = this.clampRow(Math.floor((y + radius) / this.cellSize));
+
+    for (let row = minRow; row <= maxRow; row++) {
+      for (let col = minCol; col <= maxCol; col++) {
+        const cell = row * this.cols + col;
+        const end = this.cellStart[cell + 1];
+        for (let k = this.cellStart[cell]; k < end; k++) {
+          callback(this.entries[k]);
+        }
+      }
+    }
+  }
+
+  private cellIndex(x: number, y: number) {
+    const col = this.clampCol(Math.floor(x / this.cellSize));
+    const row = this.clampRow(Math.floor(y / this.cellSize));
+    return row * this.cols + col;
+  }
+
+  private clampCol(col: number) {
+    // `!(col >= 0)` also catches NaN from a particle that has blown up
+    return !(col >= 0) ? 0 : col >= this.cols ? this.cols - 1 : col;
+  }
+
+  private clampRow(row: number) {
+    return !(row >= 0) ? 0 : row >= this.rows ? this.rows - 1 : row;
+  }
+}
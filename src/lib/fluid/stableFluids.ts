@@ -0,0 +1,250 @@
+export interface StableFluidParams {
+  // Grid cell size in px; smaller cells give finer swirls at more cost
+  cellSize: number;
+  // Kinematic viscosity in px²/frame, 0 skips the diffusion solve
+  viscosity: number;
+  // Gauss-Seidel sweeps for the diffusion and pressure solves
+  iterations: number;
+  // Fraction of velocity kept each frame so stirring eventually settles
+  dissipation: number;
+  // How strongly particles are pulled onto the grid velocity, 1 = passive tracers
+  tracerCoupling: number;
+}
+
+export const DEFAULT_STABLE_FLUID_PARAMS: StableFluidParams = {
+  cellSize: 16,
+  viscosity: 0,
+  iterations: 20,
+  dissipation: 0.995,
+  tracerCoupling: 1,
+};
+
+/**
+ * Eulerian velocity field after Jos Stam's "Stable Fluids": semi-Lagrangian
+ * advection, implicit diffusion and a pressure projection that keeps the
+ * flow divergence-free. Velocities are stored in px/frame on a cell-centred
+ * grid with a ring of boundary cells that reflect the flow off the walls.
+ */
+export class StableFluidGrid {
+  params: StableFluidParams;
+
+  private cols = 0;
+  private rows = 0;
+  private u = new Float32Array(0);
+  private v = new Float32Array(0);
+  private uPrev = new Float32Array(0);
+  private vPrev = new Float32Array(0);
+  private pressure = new Float32Array(0);
+  private divergence = new Float32Array(0);
+
+  constructor(params: Partial<StableFluidParams> = {}) {
+    this.params = { ...DEFAULT_STABLE_FLUID_PARAMS, ...params };
+  }
+
+  /** Matches the grid to the canvas; the field is cleared when the resolution changes. */
+  resize(width: number, height: number) {
+    const cols = Math.max(1, Math.ceil(width / this.params.cellSize));
+    const rows = Math.max(1, Math.ceil(height / this.params.cellSize));
+    if (cols === this.cols && rows === this.rows) return;
+
+    this.cols = cols;
+    this.rows = rows;
+    const size = (cols + 2) * (rows + 2);
+    this.u = new Float32Array(size);
+    this.v = new Float32Array(size);
+    this.uPrev = new Float32Array(size);
+    this.vPrev = new Float32Array(size);
+    this.pressure = new Float32Array(size);
+    this.divergence = new Float32Array(size);
+  }
+
+  clear() {
+    this.u.fill(0);
+    this.v.fill(0);
+  }
+
+  /**
+   * Pulls the velocity around a point towards (vx, vy) in px/frame, by
+   * `amount` at the centre falling off linearly to nothing at `radius`.
+   * Blending rather than adding means stirring never outruns the stirrer.
+   */
+  splat(x: number, y: number, vx: number, vy: number, radius: number, amount: number) {
+    const { cellSize } = this.params;
+    const cellRadius = radius / cellSize;
+    const cx = x / cellSize + 0.5;
+    const cy = y / cellSize + 0.5;
+    const minI = Math.max(1, Math.floor(cx - cellRadius));
+    const maxI = Math.min(this.cols, Math.ceil(cx + cellRadius));
+    const minJ = Math.max(1, Math.floor(cy - cellRadius));
+    const maxJ = Math.min(this.rows, Math.ceil(cy + cellRadius));
+
+    for (let j = minJ; j <= maxJ; j++) {
+      for (let i = minI; i <= maxI; i++) {
+        const dx = i - cx;
+        const dy = j - cy;
+        const distance = Math.sqrt(dx * dx + dy * dy);
+        if (distance >= cellRadius) continue;
+
+        const blend = Math.min(1, amount * (1 - distance / cellRadius));
+        const index = this.index(i, j);
+        this.u[index] += (vx - this.u[index]) * blend;
+        this.v[index] += (vy - this.v[index]) * blend;
+      }
+    }
+  }
+
+  step(dt: number) {
+    const { viscosity, dissipation } = this.params;
+
+    if (viscosity > 0) {
+      this.swap();
+      this.diffuse(1, this.u, this.uPrev, viscosity, dt);
+      this.diffuse(2, this.v, this.vPrev, viscosity, dt);
+    }
+    this.project();
+
+    this.swap();
+    this.advect(1, this.u, this.uPrev, dt);
+    this.advect(2, this.v, this.vPrev, dt);
+    this.project();
+
+    const decay = Math.pow(dissipation, dt);
+    for (let k = 0; k < this.u.length; k++) {
+      this.u[k] *= decay;
+      this.v[k] *= decay;
+    }
+  }
+
+  sampleX(x: number, y: number) {
+    return this.sample(this.u, x, y);
+  }
+
+  sampleY(x: number, y: number) {
+    return this.sample(this.v, x, y);
+  }
+
+  private diffuse(boundary: number, field: Float32Array, previous: Float32Array, viscosity: number, dt: number) {
+    const { cellSize } = this.params;
+    const a = dt * viscosity / (cellSize * cellSize);
+    this.linearSolve(boundary, field, previous, a, 1 + 4 * a);
+  }
+
+  private advect(boundary: number, field: Float32Array, source: Float32Array, dt: number) {
+    const { cellSize } = this.params;
+    const { cols, rows, uPrev, vPrev } = this;
+    const dt0 = dt / cellSize;
+
+    for (let j = 1; j <= rows; j++) {
+      for (let i = 1; i <= cols; i++) {
+        const index = this.index(i, j);
+        // Trace back along the velocity to find where this cell's contents came from
+        let x = i - dt0 * uPrev[index];
+        let y = j - dt0 * vPrev[index];
+        x = Math.min(Math.max(x, 0.5), cols + 0.5);
+        y = Math.min(Math.max(y, 0.5), rows + 0.5);
+
+        const i0 = Math.floor(x);
+        const j0 = Math.floor(y);
+        const s1 = x - i0;
+        const t1 = y - j0;
+        const s0 = 1 - s1;
+        const t0 = 1 - t1;
+
+        field[index] =
+          s0 * (t0 * source[this.index(i0, j0)] + t1 * source[this.index(i0, j0 + 1)]) +
+          s1 * (t0 * source[this.index(i0 + 1, j0)] + t1 * source[this.index(i0 + 1, j0 + 1)]);
+      }
+    }
+    this.setBoundary(boundary, field);
+  }
+
+  // Removes the divergent part of the velocity so the flow conserves volume
+  private project() {
+    const { cols, rows, u, v, pressure, divergence } = this;
+
+    for (let j = 1; j <= rows; j++) {
+      for (let i = 1; i <= cols; i++) {
+        const index = this.index(i, j);
+        divergence[index] = -0.5 * (
+          u[this.index(i + 1, j)] - u[this.index(i - 1, j)] +
+          v[this.index(i, j + 1)] - v[this.index(i, j - 1)]
+        );
+        pressure[index] = 0;
+      }
+    }
+    this.setBoundary(0, divergence);
+    this.setBoundary(0, pressure);
+    this.linearSolve(0, pressure, divergence, 1, 4);
+
+    for (let j = 1; j <= rows; j++) {
+      for (let i = 1; i <= cols; i++) {
+        const index = this.index(i, j);
+        u[index] -= 0.5 * (pressure[this.index(i + 1, j)] - pressure[this.index(i - 1, j)]);
+        v[index] -= 0.5 * (pressure[this.index(i, j + 1)] - pressure[this.index(i, j - 1)]);
+      }
+    }
+    this.setBoundary(1, u);
+    this.setBoundary(2, v);
+  }
+
+  private linearSolve(boundary: number, field: Float32Array, source: Float32Array, a: number, c: number) {
+    const { cols, rows } = this;
+    const iterations = Math.max(1, Math.round(this.params.iterations));
+
+    for (let iteration = 0; iteration < iterations; iteration++) {
+      for (let j = 1; j <= rows; j++) {
+        for (let i = 1; i <= cols; i++) {
+          const index = this.index(i, j);
+          field[index] = (source[index] + a * (
+            field[index - 1] + field[index + 1] +
+            field[index - (cols + 2)] + field[index + (cols + 2)]
+          )) / c;
+        }
+      }
+      this.setBoundary(boundary, field);
+    }
+  }
+
+  // boundary 1 mirrors horizontal velocity off the side walls, 2 vertical
+  // velocity off the top and bottom, 0 copies scalars outward
+  private setBoundary(boundary: number, field: Float32Array) {
+    const { cols, rows } = this;
+
+    for (let j = 1; j <= rows; j++) {
+      field[this.index(0, j)] = boundary === 1 ? -field[this.index(1, j)] : field[this.index(1, j)];
+      field[this.index(cols + 1, j)] = boundary === 1 ? -field[this.index(cols, j)] : field[this.index(cols, j)];
+    }
+    for (let i = 1; i <= cols; i++) {
+      field[this.index(i, 0)] = boundary === 2 ? -field[this.index(i, 1)] : field[this.index(i, 1)];
+      field[this.index(i, rows + 1)] = boundary === 2 ? -field[this.index(i, rows)] : field[this.index(i, rows)];
+    }
+
+    field[this.index(0, 0)] = 0.5 * (field[this.index(1, 0)] + field[this.index(0, 1)]);
+    field[this.index(0, rows + 1)] = 0.5 * (field[this.index(1, rows + 1)] + field[this.index(0, rows)]);
+    field[this.index(cols + 1, 0)] = 0.5 * (field[this.index(cols, 0)] + field[this.index(cols + 1, 1)]);
+    field[this.index(cols + 1, rows + 1)] = 0.5 * (field[this.index(cols, rows + 1)] + field[this.index(cols + 1, rows)]);
+  }
+
+  // Bilinear lookup at a point in px
+  private sample(field: Float32Array, x: number, y: number) {
+    const { cellSize } = this.params;
+    const gx = Math.min(Math.max(x / cellSize + 0.5, 0.5), this.cols + 0.5);
+    const gy = Math.min(Math.max(y / cellSize + 0.5, 0.5), this.rows + 0.5);
+    const i0 = Math.floor(gx);
+    const j0 = Math.floor(gy);
+    const s = gx - i0;
+    const t = gy - j0;
+
+    return (1 - s) * ((1 - t) * field[this.index(i0, j0)] + t * field[this.index(i0, j0 + 1)]) +
+      s * ((1 - t) * field[this.index(i0 + 1, j0)] + t * field[this.index(i0 + 1, j0 + 1)]);
+  }
+
+  private swap() {
+    [this.u, this.uPrev] = [this.uPrev, this.u];
+    [this.v, this.vPrev] = [this.vPrev, this.v];
+  }
+
+  private index(i: number, j: number) {
+    return i + (this.cols + 2) * j;
+  }
+}
@@ -0,0 +1,277 @@
+import type { ParticleStore } from './particleStore';
+import { particleOpacity } from './renderer';
+
+export interface SurfaceParams {
+  // Draw the fluid as one continuous surface instead of separate particles
+  enabled: boolean;
+  // Field value the surface is traced at. A lone particle peaks at 1, so
+  // values above 1 hide isolated drops and only clusters show.
+  threshold: number;
+  // Reach of each particle's contribution to the field in px
+  influenceRadius: number;
+  fillColor: string;
+  edgeColor: string;
+  // Width of the edge highlight in px, 0 for none
+  edgeWidth: number;
+}
+
+export const DEFAULT_SURFACE_PARAMS: SurfaceParams = {
+  enabled: false,
+  threshold: 0.5,
+  influenceRadius: 24,
+  fillColor: '#0a7cff',
+  edgeColor: '#9befff',
+  edgeWidth: 1.5,
+};
+
+// Spacing in px of the samples the field is traced on
+const SAMPLE_SPACING = 6;
+
+// Triangles and edge segments of one frame's surface
+export interface SurfaceMesh {
+  // x0, y0, x1, y1, x2, y2 per triangle
+  triangles: Float32Array;
+  triangleLength: number;
+  // x0, y0, x1, y1 per segment
+  edges: Float32Array;
+  edgeLength: number;
+}
+
+/**
+ * Metaball surface. Each particle adds a smooth bump to a density field
+ * sampled on a regular grid, and marching squares traces where the field
+ * crosses the threshold. Nearby particles' bumps add up, so clusters merge
+ * into one blob while stragglers pinch off like drops.
+ */
+export class SurfaceMesher {
+  private field = new Float32Array(0);
+  private cols = 0;
+  private rows = 0;
+  private mesh: SurfaceMesh = {
+    triangles: new Float32Array(0),
+    triangleLength: 0,
+    edges: new Float32Array(0),
+    edgeLength: 0,
+  };
+
+  // Corner and side-crossing positions of the cell being traced
+  private cornerX = new Float32Array(4);
+  private cornerY = new Float32Array(4);
+  private crossX = new Float32Array(4);
+  private crossY = new Float32Array(4);
+  private polygon = new Float32Array(16);
+
+  /**
+   * Traces the surface through the interpolated `renderX`/`renderY`
+   * positions. The returned mesh is reused by the next call.
+   */
+  build(
+    store: ParticleStore,
+    renderX: Float32Array,
+    renderY: Float32Array,
+    width: number,
+    height: number,
+    params: SurfaceParams
+  ): SurfaceMesh {
+    this.mesh.triangleLength = 0;
+    this.mesh.edgeLength = 0;
+    if (!params.enabled || store.count === 0) return this.mesh;
+
+    this.resize(width, height);
+    this.accumulate(store, renderX, renderY, params.influenceRadius);
+    this.march(params.threshold);
+    return this.mesh;
+  }
+
+  private resize(width: number, height: number) {
+    const cols = Math.max(1, Math.ceil(width / SAMPLE_SPACING));
+    const rows = Math.max(1, Math.ceil(height / SAMPLE_SPACING));
+    if (cols === this.cols && rows === this.rows) return;
+
+    this.cols = cols;
+    this.rows = rows;
+    this.field = new Float32Array((cols + 1) * (rows + 1));
+  }
+
+  // Adds (1 - d²/R²)² per particle to every sample within R, scaled by its opacity
+  private accumulate(store: ParticleStore, renderX: Float32Array, renderY: Float32Array, radius: number) {
+    const { field, cols, rows } = this;
+    const stride = cols + 1;
+    const radiusSq = radius * radius;
+    field.fill(0);
+    if (!(radiusSq > 0)) return;
+
+    for (let i = 0; i < store.count; i++) {
+      const opacity = particleOpacity(store, i);
+      if (!(opacity > 0)) continue;
+
+      const px = renderX[i];
+      const py = renderY[i];
+      const minCol = Math.max(0, Math.ceil((px - radius) / SAMPLE_SPACING));
+      const maxCol = Math.min(cols, Math.floor((px + radius) / SAMPLE_SPACING));
+      const minRow = Math.max(0, Math.ceil((py - radius) / SAMPLE_SPACING));
+      const maxRow = Math.min(rows, Math.floor((py + radius) / SAMPLE_SPACING));
+
+      for (let row = minRow; row <= maxRow; row++) {
+        const dy = row * SAMPLE_SPACING - py;
+        for (let col = minCol; col <= maxCol; col++) {
+          const dx = col * SAMPLE_SPACING - px;
+          const falloff = 1 - (dx * dx + dy * dy) / radiusSq;
+          if (falloff > 0) field[row * stride + col] += falloff * falloff * opacity;
+        }
+      }
+    }
+  }
+
+  private march(threshold: number) {
+    const { field, cols, rows, cornerX, cornerY } = this;
+    const stride = cols + 1;
+    const values = [0, 0, 0, 0];
+
+    for (let row = 0; row < rows; row++) {
+      // Fully covered cells are merged into one rectangle per run
+      let runStart = -1;
+
+      for (let col = 0; col < cols; col++) {
+        const top = row * stride + col;
+        // Corners clockwise from the top left
+        values[0] = field[top];
+        values[1] = field[top + 1];
+        values[2] = field[top + stride + 1];
+        values[3] = field[top + stride];
+
+        let mask = 0;
+        for (let k = 0; k < 4; k++) {
+          if (values[k] >= threshold) mask |= 1 << k;
+        }
+
+        if (mask === 15) {
+          if (runStart < 0) runStart = col;
+          continue;
+        }
+        if (runStart >= 0) {
+          this.pushRect(runStart * SAMPLE_SPACING, row * SAMPLE_SPACING, col * SAMPLE_SPACING, (row + 1) * SAMPLE_SPACING);
+          runStart = -1;
+        }
+        if (mask === 0) continue;
+
+        const x0 = col * SAMPLE_SPACING;
+        const y0 = row * SAMPLE_SPACING;
+        cornerX.set([x0, x0 + SAMPLE_SPACING, x0 + SAMPLE_SPACING, x0]);
+        cornerY.set([y0, y0, y0 + SAMPLE_SPACING, y0 + SAMPLE_SPACING]);
+        this.traceCell(values, mask, threshold);
+      }
+
+      if (runStart >= 0) {
+        this.pushRect(runStart * SAMPLE_SPACING, row * SAMPLE_SPACING, cols * SAMPLE_SPACING, (row + 1) * SAMPLE_SPACING);
+      }
+    }
+  }
+
+  private traceCell(values: number[], mask: number, threshold: number) {
+    const { cornerX, cornerY, crossX, crossY } = this;
+    const inside = (k: number) => (mask & (1 << (k & 3))) !== 0;
+
+    // Where the field crosses the threshold on side k, from corner k to k + 1
+    for (let k = 0; k < 4; k++) {
+      const next = (k + 1) & 3;
+      if (inside(k) === inside(next)) continue;
+      const t = (threshold - values[k]) / (values[next] - values[k]);
+      crossX[k] = cornerX[k] + (cornerX[next] - cornerX[k]) * t;
+      crossY[k] = cornerY[k] + (cornerY[next] - cornerY[k]) * t;
+    }
+
+    // Opposite corners inside: the cell centre decides whether they join
+    const saddle = mask === 5 || mask === 10;
+    const joined = !saddle || (values[0] + values[1] + values[2] + values[3]) / 4 >= threshold;
+
+    if (!joined) {
+      // Two separate corners, each cut off by its own edge
+      for (let k = 0; k < 4; k++) {
+        if (!inside(k)) continue;
+        const previous = (k + 3) & 3;
+        this.pushTriangle(cornerX[k], cornerY[k], crossX[k], crossY[k], crossX[previous], crossY[previous]);
+        this.pushEdge(crossX[previous], crossY[previous], crossX[k], crossY[k]);
+      }
+      return;
+    }
+
+    // Inside corners and crossings in order around the cell always make a
+    // convex polygon, so a fan covers it
+    const { polygon } = this;
+    let length = 0;
+    for (let k = 0; k < 4; k++) {
+      if (inside(k)) {
+        polygon[length++] = cornerX[k];
+        polygon[length++] = cornerY[k];
+      }
+      if (inside(k) !== inside(k + 1)) {
+        polygon[length++] = crossX[k];
+        polygon[length++] = crossY[k];
+      }
+    }
+    for (let k = 4; k < length; k += 2) {
+      this.pushTriangle(polygon[0], polygon[1], polygon[k - 2], polygon[k - 1], polygon[k], polygon[k + 1]);
+    }
+
+    if (saddle) {
+      // Joined saddles cut off the two outside corners instead
+      for (let k = 0; k < 4; k++) {
+        if (inside(k)) continue;
+        const previous = (k + 3) & 3;
+        this.pushEdge(crossX[previous], crossY[previous], crossX[k], crossY[k]);
+      }
+      return;
+    }
+
+    // Any other cell crosses the threshold on exactly two sides
+    let first = -1;
+    for (let k = 0; k < 4; k++) {
+      if (inside(k) === inside(k + 1)) continue;
+      if (first < 0) {
+        first = k;
+      } else {
+        this.pushEdge(crossX[first], crossY[first], crossX[k], crossY[k]);
+      }
+    }
+  }
+
+  private pushRect(x0: number, y0: number, x1: number, y1: number) {
+    this.pushTriangle(x0, y0, x1, y0, x1, y1);
+    this.pushTriangle(x0, y0, x1, y1, x0, y1);
+  }
+
+  private pushTriangle(x0: number, y0: number, x1: number, y1: number, x2: number, y2: number) {
+    const mesh = this.mesh;
+    if (mesh.triangleLength + 6 > mesh.triangles.length) {
+      const grown = new Float32Array(Math.max(1024, mesh.triangles.length * 2));
+      grown.set(mesh.triangles.subarray(0, mesh.triangleLength));
+      mesh.triangles = grown;
+    }
+    const { triangles } = mesh;
+    const k = mesh.triangleLength;
+    triangles[k] = x0;
+    triangles[k + 1] = y0;
+    triangles[k + 2] = x1;
+    triangles[k + 3] = y1;
+    triangles[k + 4] = x2;
+    triangles[k + 5] = y2;
+    mesh.triangleLength += 6;
+  }
+
+  private pushEdge(x0: number, y0: number, x1: number, y1: number) {
+    const mesh = this.mesh;
+    if (mesh.edgeLength + 4 > mesh.edges.length) {
+      const grown = new Float32Array(Math.max(512, mesh.edges.length * 2));
+      grown.set(mesh.edges.subarray(0, mesh.edgeLength));
+      mesh.edges = grown;
+    }
+    const { edges } = mesh;
+    const k = mesh.edgeLength;
+    edges[k] = x0;
+    edges[k + 1] = y0;
+    edges[k + 2] = x1;
+    edges[k + 3] = y1;
+    mesh.edgeLength += 4;
+  }
+}
@@ -0,0 +1,165 @@
+import { formatColor, parseColor } from './color';
+import { LinkLayer, LINK_WIDTH } from './links';
+import { SurfaceMesher } from './surface';
+import {
+  BACKGROUND_RGB,
+  GLOW_SCALE,
+  HAND_DOT_RADIUS,
+  HAND_GLOW_OPACITY,
+  handDotColor,
+  handGlowColor,
+  particleOpacity,
+  type ParticleRenderer,
+  type RenderFrame,
+  type RenderSurface,
+} from './renderer';
+
+const SVG_NS = 'http://www.w3.org/2000/svg';
+
+let nextInstance = 0;
+
+function format(value: number) {
+  return Math.round(value * 10) / 10;
+}
+
+// Colours come from engine options, so they're rewritten before going into markup
+function safeColor(color: string) {
+  return formatColor(parseColor(color));
+}
+
+/**
+ * Vector output for printing and export. Each frame is rebuilt as an
+ * `<svg>` laid over the canvas (which is left blank), so it needs the DOM
+ * and can't run in a worker. SVG has no memory of the last frame, so there
+ * are no trails; frames read as crisp snapshots.
+ */
+export class SvgRenderer implements ParticleRenderer {
+  readonly kind = 'svg';
+  readonly surface: RenderSurface;
+
+  private svg: SVGSVGElement;
+  private defs: SVGDefsElement;
+  private background: SVGRectElement;
+  private layer: SVGGElement;
+  private links = new LinkLayer();
+  private liquid = new SurfaceMesher();
+  private idPrefix = `particle-svg-${nextInstance++}`;
+  private paletteKey = '';
+  // The palette as safe `rgba()` strings
+  private palette: string[] = [];
+
+  constructor(surface: RenderSurface) {
+    if (typeof document === 'undefined' || !('parentElement' in surface) || !surface.parentElement) {
+      throw new Error('SVG rendering needs a canvas in the document');
+    }
+
+    this.surface = surface;
+    this.svg = document.createElementNS(SVG_NS, 'svg');
+    this.svg.setAttribute('style', 'position: absolute; inset: 0; width: 100%; height: 100%; pointer-events: none;');
+    this.defs = document.createElementNS(SVG_NS, 'defs');
+    this.background = document.createElementNS(SVG_NS, 'rect');
+    this.background.setAttribute('fill', `rgb(${BACKGROUND_RGB.join(', ')})`);
+    this.layer = document.createElementNS(SVG_NS, 'g');
+    this.svg.append(this.defs, this.background, this.layer);
+    surface.parentElement.insertBefore(this.svg, surface.nextSibling);
+  }
+
+  render(frame: RenderFrame) {
+    const { store, x, y, width, height, interactors, interactionRadius } = frame;
+    this.svg.setAttribute('viewBox', `0 0 ${width} ${height}`);
+    this.background.setAttribute('width', String(width));
+    this.background.setAttribute('height', String(height));
+    this.syncGradients(frame.colors.palette);
+
+    const markup: string[] = [];
+
+    const batches = this.links.build(store, frame.grid, x, y, frame.links, frame.linkDistanceScale, frame.colors);
+    for (const batch of batches) {
+      const path: string[] = [];
+      for (let k = 0; k < batch.length; k += 4) {
+        path.push(`M${format(batch.coords[k])} ${format(batch.coords[k + 1])}L${format(batch.coords[k + 2])} ${format(batch.coords[k + 3])}`);
+      }
+      markup.push(`<path d="${path.join('')}" fill="none" stroke="${batch.color}" stroke-width="${LINK_WIDTH}" opacity="${batch.opacity.toFixed(3)}"/>`);
+    }
+
+    if (frame.surface.enabled) {
+      markup.push(this.surfaceMarkup(frame));
+    }
+
+    // The surface stands in for the particles
+    const particleCount = frame.surface.enabled ? 0 : store.count;
+    for (let i = 0; i < particleCount; i++) {
+      const opacity = particleOpacity(store, i);
+      if (!(opacity > 0)) continue;
+
+      const cx = format(x[i]);
+      const cy = format(y[i]);
+      const radius = store.radius[i];
+      const colorIndex = frame.colors.colorIndex[i];
+      const color = this.palette[colorIndex];
+      markup.push(`<g opacity="${opacity.toFixed(3)}">`);
+      if (frame.glow) {
+        markup.push(`<circle cx="${cx}" cy="${cy}" r="${format(radius * GLOW_SCALE)}" fill="url(#${this.idPrefix}-${colorIndex})"/>`);
+      }
+      markup.push(`<circle cx="${cx}" cy="${cy}" r="${format(radius)}" fill="${color}"/></g>`);
+    }
+
+    for (const hand of interactors) {
+      const gradient = `${this.idPrefix}-hand-${hand.isOpen ? 'open' : 'closed'}`;
+      markup.push(
+        `<circle cx="${format(hand.x)}" cy="${format(hand.y)}" r="${format(interactionRadius)}" fill="url(#${gradient})" opacity="${HAND_GLOW_OPACITY}"/>`,
+        `<circle cx="${format(hand.x)}" cy="${format(hand.y)}" r="${HAND_DOT_RADIUS}" fill="${handDotColor(hand)}"/>`
+      );
+    }
+
+    this.layer.innerHTML = markup.join('');
+  }
+
+  /** The current frame as a standalone SVG document. */
+  serialize() {
+    return new XMLSerializer().serializeToString(this.svg);
+  }
+
+  dispose() {
+    this.svg.remove();
+  }
+
+  private surfaceMarkup(frame: RenderFrame) {
+    const params = frame.surface;
+    const { triangles, triangleLength, edges, edgeLength } = this.liquid.build(
+      frame.store, frame.x, frame.y, frame.width, frame.height, params
+    );
+
+    const fill: string[] = [];
+    for (let k = 0; k < triangleLength; k += 6) {
+      fill.push(`M${format(triangles[k])} ${format(triangles[k + 1])}L${format(triangles[k + 2])} ${format(triangles[k + 3])}L${format(triangles[k + 4])} ${format(triangles[k + 5])}Z`);
+    }
+    let markup = `<path d="${fill.join('')}" fill="${safeColor(params.fillColor)}"/>`;
+
+    if (params.edgeWidth > 0) {
+      const edge: string[] = [];
+      for (let k = 0; k < edgeLength; k += 4) {
+        edge.push(`M${format(edges[k])} ${format(edges[k + 1])}L${format(edges[k + 2])} ${format(edges[k + 3])}`);
+      }
+      markup += `<path d="${edge.join('')}" fill="none" stroke="${safeColor(params.edgeColor)}" stroke-width="${format(params.edgeWidth)}" stroke-linecap="round"/>`;
+    }
+    return markup;
+  }
+
+  // One radial gradient per palette colour, plus the two hand states
+  private syncGradients(palette: readonly string[]) {
+    const key = palette.join('|');
+    if (key === this.paletteKey) return;
+
+    this.paletteKey = key;
+    this.palette = palette.map(safeColor);
+    const gradient = (id: string, color: string) =>
+      `<radialGradient id="${id}"><stop offset="0" stop-color="${color}"/><stop offset="1" stop-color="${color}" stop-opacity="0"/></radialGradient>`;
+
+    this.defs.innerHTML = [
+      ...this.palette.map((color, index) => gradient(`${this.idPrefix}-${index}`, color)),
+      gradient(`${this.idPrefix}-hand-open`, handGlowColor({ x: 0, y: 0, isOpen: true })),
+      gradient(`${this.idPrefix}-hand-closed`, handGlowColor({ x: 0, y: 0, isOpen: false })),
+    ].join('');
+  }
+}
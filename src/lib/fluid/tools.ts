@@ -0,0 +1,77 @@
+import type { InteractorMode } from './particleEngine';
+
+export type ToolId = 'repel' | 'attract' | 'vortexCw' | 'vortexCcw' | 'drag' | 'emit' | 'erase' | 'freeze';
+
+// How a tool drives the interactors it creates
+export interface PointerTool {
+  mode: InteractorMode;
+  // The interactor's `isOpen` before any press inverts it
+  isOpen: boolean;
+  // Whether a mouse acts while merely hovering; brushes only act while pressed
+  hover: boolean;
+}
+
+export interface ToolSettings {
+  radius: number;
+  strength: number;
+}
+
+export interface ToolDefinition extends PointerTool {
+  id: ToolId;
+  label: string;
+  // Key that selects the tool
+  shortcut: string;
+  hint: string;
+  defaults: ToolSettings;
+}
+
+export const TOOLS: ToolDefinition[] = [
+  {
+    id: 'repel', label: 'Repel', shortcut: '1', mode: 'push', isOpen: true, hover: true,
+    hint: 'Pushes particles away; press or hold to pull instead',
+    defaults: { radius: 150, strength: 0.5 },
+  },
+  {
+    id: 'attract', label: 'Attract', shortcut: '2', mode: 'push', isOpen: false, hover: true,
+    hint: 'Pulls particles in; press or hold to push instead',
+    defaults: { radius: 150, strength: 0.5 },
+  },
+  {
+    id: 'vortexCw', label: 'Vortex (clockwise)', shortcut: '3', mode: 'vortex', isOpen: true, hover: true,
+    hint: 'Swirls particles clockwise; press or hold to reverse',
+    defaults: { radius: 120, strength: 0.4 },
+  },
+  {
+    id: 'vortexCcw', label: 'Vortex (counter-clockwise)', shortcut: '4', mode: 'vortex', isOpen: false, hover: true,
+    hint: 'Swirls particles counter-clockwise; press or hold to reverse',
+    defaults: { radius: 120, strength: 0.4 },
+  },
+  {
+    id: 'drag', label: 'Drag', shortcut: '5', mode: 'drag', isOpen: true, hover: true,
+    hint: 'Stirs particles along with your strokes',
+    defaults: { radius: 100, strength: 0.3 },
+  },
+  {
+    id: 'emit', label: 'Emit', shortcut: '6', mode: 'emit', isOpen: true, hover: false,
+    hint: 'Press and paint to add particles',
+    defaults: { radius: 30, strength: 0.5 },
+  },
+  {
+    id: 'erase', label: 'Erase', shortcut: '7', mode: 'erase', isOpen: true, hover: false,
+    hint: 'Press and paint to remove particles',
+    defaults: { radius: 40, strength: 1 },
+  },
+  {
+    id: 'freeze', label: 'Freeze', shortcut: '8', mode: 'freeze', isOpen: true, hover: false,
+    hint: 'Press and paint to pin particles; right-click or hold to thaw',
+    defaults: { radius: 50, strength: 1 },
+  },
+];
+
+export function getTool(id: ToolId) {
+  return TOOLS.find((tool) => tool.id === id) ?? TOOLS[0];
+}
+
+export function defaultToolSettings() {
+  return Object.fromEntries(TOOLS.map((tool) => [tool.id, { ...tool.defaults }])) as Record<ToolId, ToolSettings>;
+}
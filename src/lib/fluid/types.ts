@@ -0,0 +1,27 @@
+// The slice of a particle the solvers work on; `Particle` carries
+// rendering state on top of this.
+export interface FluidParticle {
+  x: number;
+  y: number;
+  vx: number;
+  vy: number;
+}
+
+// The same slice for every particle at once, one array per field, as the
+// solvers take it. Only the first `count` entries are live; `ParticleStore`
+// is one of these.
+export interface FluidBuffers {
+  count: number;
+  x: Float32Array;
+  y: Float32Array;
+  vx: Float32Array;
+  vy: Float32Array;
+}
+
+export interface Particle extends FluidParticle {
+  radius: number;
+  color: string;
+  alpha: number;
+  life: number;
+  maxLife: number;
+}
@@ -0,0 +1,319 @@
+import { parseColor, type Rgba } from './color';
+import { LinkLayer } from './links';
+import { SurfaceMesher } from './surface';
+import {
+  BACKGROUND_RGB,
+  GLOW_SCALE,
+  HAND_DOT_RADIUS,
+  HAND_GLOW_OPACITY,
+  handDotColor,
+  handGlowColor,
+  particleOpacity,
+  trailFadeOpacity,
+  type ParticleRenderer,
+  type RenderFrame,
+  type RenderSurface,
+} from './renderer';
+
+// Every disc is one instance: a glow that fades linearly to the rim with a
+// solid core of `coreRatio` times the radius drawn over it
+const DISC_VERTEX_SHADER = `#version 300 es
+layout(location = 0) in vec2 a_corner;
+layout(location = 1) in vec2 a_center;
+layout(location = 2) in float a_radius;
+layout(location = 3) in float a_coreRatio;
+layout(location = 4) in vec2 a_opacity;
+layout(location = 5) in vec3 a_color;
+
+uniform vec2 u_resolution;
+
+out vec2 v_local;
+out float v_radius;
+out float v_coreRatio;
+out vec2 v_opacity;
+out vec3 v_color;
+
+void main() {
+  v_local = a_corner;
+  v_radius = a_radius;
+  v_coreRatio = a_coreRatio;
+  v_opacity = a_opacity;
+  v_color = a_color;
+
+  vec2 clip = (a_center + a_corner * a_radius) / u_resolution * 2.0 - 1.0;
+  gl_Position = vec4(clip.x, -clip.y, 0.0, 1.0);
+}`;
+
+const DISC_FRAGMENT_SHADER = `#version 300 es
+precision mediump float;
+
+in vec2 v_local;
+in float v_radius;
+in float v_coreRatio;
+in vec2 v_opacity;
+in vec3 v_color;
+
+out vec4 outColor;
+
+void main() {
+  float d = length(v_local);
+  if (d > 1.0) discard;
+
+  // Half a pixel of antialiasing on the core's edge
+  float edge = 0.5 / max(v_radius, 1.0);
+  float core = v_opacity.y * (1.0 - smoothstep(v_coreRatio - edge, v_coreRatio + edge, d));
+  float glow = v_opacity.x * (1.0 - d);
+  float alpha = core + glow * (1.0 - core);
+  outColor = vec4(v_color * alpha, alpha);
+}`;
+
+// Solid colour in px coordinates, for the trail fade, link lines and liquid surface
+const FLAT_VERTEX_SHADER = `#version 300 es
+layout(location = 0) in vec2 a_position;
+
+uniform vec2 u_resolution;
+
+void main() {
+  vec2 clip = a_position / u_resolution * 2.0 - 1.0;
+  gl_Position = vec4(clip.x, -clip.y, 0.0, 1.0);
+}`;
+
+const FLAT_FRAGMENT_SHADER = `#version 300 es
+precision mediump float;
+
+uniform vec4 u_color;
+
+out vec4 outColor;
+
+void main() {
+  outColor = vec4(u_color.rgb * u_color.a, u_color.a);
+}`;
+
+// centre x/y, radius, core ratio, glow and core opacity, r/g/b
+const FLOATS_PER_DISC = 9;
+
+function compileProgram(gl: WebGL2RenderingContext, vertexSource: string, fragmentSource: string) {
+  const program = gl.createProgram();
+  const shaders = [
+    [gl.VERTEX_SHADER, vertexSource],
+    [gl.FRAGMENT_SHADER, fragmentSource],
+  ] as const;
+
+  for (const [type, source] of shaders) {
+    const shader = gl.createShader(type);
+    if (!shader || !program) throw new Error('WebGL2 shader allocation failed');
+    gl.shaderSource(shader, source);
+    gl.compileShader(shader);
+    if (!gl.getShaderParameter(shader, gl.COMPILE_STATUS)) {
+      throw new Error(`WebGL2 shader failed to compile: ${gl.getShaderInfoLog(shader)}`);
+    }
+    gl.attachShader(program, shader);
+    gl.deleteShader(shader);
+  }
+
+  gl.linkProgram(program);
+  if (!gl.getProgramParameter(program, gl.LINK_STATUS)) {
+    throw new Error(`WebGL2 program failed to link: ${gl.getProgramInfoLog(program)}`);
+  }
+  return program;
+}
+
+/**
+ * Draws every particle in a single instanced call, with trails kept by
+ * preserving the drawing buffer between frames. Link lines are drawn as
+ * GL lines, which browsers only offer at 1px wide.
+ */
+export class WebGLRenderer implements ParticleRenderer {
+  readonly kind = 'webgl2';
+  readonly surface: RenderSurface;
+
+  private gl: WebGL2RenderingContext;
+  private discProgram: WebGLProgram;
+  private flatProgram: WebGLProgram;
+  private discVao: WebGLVertexArrayObject | null;
+  private flatVao: WebGLVertexArrayObject | null;
+  private quadBuffer: WebGLBuffer | null;
+  private discBuffer: WebGLBuffer | null;
+  private flatBuffer: WebGLBuffer | null;
+  private discResolution: WebGLUniformLocation | null;
+  private flatResolution: WebGLUniformLocation | null;
+  private flatColor: WebGLUniformLocation | null;
+
+  private discs = new Float32Array(0);
+  private fadeQuad = new Float32Array(8);
+  private links = new LinkLayer();
+  private liquid = new SurfaceMesher();
+  private paletteKey = '';
+  private paletteColors: Rgba[] = [];
+
+  constructor(surface: RenderSurface) {
+    const gl = surface.getContext('webgl2', {
+      preserveDrawingBuffer: true,
+      premultipliedAlpha: true,
+      antialias: true,
+    }) as WebGL2RenderingContext | null;
+    if (!gl) throw new Error('WebGL2 context unavailable');
+
+    this.surface = surface;
+    this.gl = gl;
+    this.discProgram = compileProgram(gl, DISC_VERTEX_SHADER, DISC_FRAGMENT_SHADER);
+    this.flatProgram = compileProgram(gl, FLAT_VERTEX_SHADER, FLAT_FRAGMENT_SHADER);
+    this.discResolution = gl.getUniformLocation(this.discProgram, 'u_resolution');
+    this.flatResolution = gl.getUniformLocation(this.flatProgram, 'u_resolution');
+    this.flatColor = gl.getUniformLocation(this.flatProgram, 'u_color');
+
+    this.quadBuffer = gl.createBuffer();
+    gl.bindBuffer(gl.ARRAY_BUFFER, this.quadBuffer);
+    gl.bufferData(gl.ARRAY_BUFFER, new Float32Array([-1, -1, 1, -1, -1, 1, 1, 1]), gl.STATIC_DRAW);
+
+    this.discBuffer = gl.createBuffer();
+    this.discVao = gl.createVertexArray();
+    gl.bindVertexArray(this.discVao);
+    gl.bindBuffer(gl.ARRAY_BUFFER, this.quadBuffer);
+    gl.enableVertexAttribArray(0);
+    gl.vertexAttribPointer(0, 2, gl.FLOAT, false, 0, 0);
+
+    gl.bindBuffer(gl.ARRAY_BUFFER, this.discBuffer);
+    const stride = FLOATS_PER_DISC * 4;
+    const attributes = [[1, 2, 0], [2, 1, 2], [3, 1, 3], [4, 2, 4], [5, 3, 6]] as const;
+    for (const [location, size, offset] of attributes) {
+      gl.enableVertexAttribArray(location);
+      gl.vertexAttribPointer(location, size, gl.FLOAT, false, stride, offset * 4);
+      gl.vertexAttribDivisor(location, 1);
+    }
+
+    this.flatBuffer = gl.createBuffer();
+    this.flatVao = gl.createVertexArray();
+    gl.bindVertexArray(this.flatVao);
+    gl.bindBuffer(gl.ARRAY_BUFFER, this.flatBuffer);
+    gl.enableVertexAttribArray(0);
+    gl.vertexAttribPointer(0, 2, gl.FLOAT, false, 0, 0);
+    gl.bindVertexArray(null);
+
+    gl.enable(gl.BLEND);
+    gl.blendFunc(gl.ONE, gl.ONE_MINUS_SRC_ALPHA);
+  }
+
+  render(frame: RenderFrame) {
+    const { gl } = this;
+    const { store, x, y, width, height, interactors, interactionRadius } = frame;
+    this.syncPalette(frame.colors.palette);
+
+    gl.viewport(0, 0, gl.drawingBufferWidth, gl.drawingBufferHeight);
+
+    // Fade the previous frame towards the background
+    gl.useProgram(this.flatProgram);
+    gl.uniform2f(this.flatResolution, width, height);
+    gl.bindVertexArray(this.flatVao);
+    gl.uniform4f(this.flatColor, BACKGROUND_RGB[0] / 255, BACKGROUND_RGB[1] / 255, BACKGROUND_RGB[2] / 255, trailFadeOpacity(frame.elapsedFrames));
+    gl.bindBuffer(gl.ARRAY_BUFFER, this.flatBuffer);
+    this.fadeQuad.set([0, 0, width, 0, 0, height, width, height]);
+    gl.bufferData(gl.ARRAY_BUFFER, this.fadeQuad, gl.STREAM_DRAW);
+    gl.drawArrays(gl.TRIANGLE_STRIP, 0, 4);
+
+    const batches = this.links.build(store, frame.grid, x, y, frame.links, frame.linkDistanceScale, frame.colors);
+    for (const batch of batches) {
+      const [r, g, b, a] = batch.rgba;
+      gl.uniform4f(this.flatColor, r, g, b, a * batch.opacity);
+      gl.bufferData(gl.ARRAY_BUFFER, batch.coords.subarray(0, batch.length), gl.STREAM_DRAW);
+      gl.drawArrays(gl.LINES, 0, batch.length / 2);
+    }
+
+    if (frame.surface.enabled) this.drawSurface(frame);
+
+    // Particles, then the hand glows and dots on top
+    const capacity = store.count + interactors.length * 2;
+    if (this.discs.length < capacity * FLOATS_PER_DISC) {
+      this.discs = new Float32Array(capacity * FLOATS_PER_DISC * 2);
+    }
+    let discCount = 0;
+    const particleCount = frame.surface.enabled ? 0 : store.count;
+    for (let i = 0; i < particleCount; i++) {
+      const opacity = particleOpacity(store, i);
+      if (!(opacity > 0)) continue;
+
+      const radius = store.radius[i];
+      const color = this.paletteColors[frame.colors.colorIndex[i]] ?? this.paletteColors[0];
+      discCount = frame.glow
+        ? this.pushDisc(discCount, x[i], y[i], radius * GLOW_SCALE, 1 / GLOW_SCALE, opacity, opacity, color)
+        : this.pushDisc(discCount, x[i], y[i], radius, 1, 0, opacity, color);
+    }
+    for (const hand of interactors) {
+      const glow = parseColor(handGlowColor(hand));
+      discCount = this.pushDisc(discCount, hand.x, hand.y, interactionRadius, 0, glow[3] * HAND_GLOW_OPACITY, 0, glow);
+      discCount = this.pushDisc(discCount, hand.x, hand.y, HAND_DOT_RADIUS, 1, 0, 1, parseColor(handDotColor(hand)));
+    }
+
+    gl.useProgram(this.discProgram);
+    gl.uniform2f(this.discResolution, width, height);
+    gl.bindVertexArray(this.discVao);
+    gl.bindBuffer(gl.ARRAY_BUFFER, this.discBuffer);
+    gl.bufferData(gl.ARRAY_BUFFER, this.discs.subarray(0, discCount * FLOATS_PER_DISC), gl.STREAM_DRAW);
+    gl.drawArraysInstanced(gl.TRIANGLE_STRIP, 0, 4, discCount);
+    gl.bindVertexArray(null);
+  }
+
+  dispose() {
+    const { gl } = this;
+    gl.deleteBuffer(this.quadBuffer);
+    gl.deleteBuffer(this.discBuffer);
+    gl.deleteBuffer(this.flatBuffer);
+    gl.deleteVertexArray(this.discVao);
+    gl.deleteVertexArray(this.flatVao);
+    gl.deleteProgram(this.discProgram);
+    gl.deleteProgram(this.flatProgram);
+    gl.getExtension('WEBGL_lose_context')?.loseContext();
+  }
+
+  // Expects the flat program bound. GL lines are 1px, so the edge width only switches the highlight on or off.
+  private drawSurface(frame: RenderFrame) {
+    const { gl } = this;
+    const params = frame.surface;
+    const { triangles, triangleLength, edges, edgeLength } = this.liquid.build(
+      frame.store, frame.x, frame.y, frame.width, frame.height, params
+    );
+
+    const [r, g, b, a] = parseColor(params.fillColor);
+    gl.uniform4f(this.flatColor, r, g, b, a);
+    gl.bufferData(gl.ARRAY_BUFFER, triangles.subarray(0, triangleLength), gl.STREAM_DRAW);
+    gl.drawArrays(gl.TRIANGLES, 0, triangleLength / 2);
+
+    if (params.edgeWidth <= 0) return;
+    const edge = parseColor(params.edgeColor);
+    gl.uniform4f(this.flatColor, edge[0], edge[1], edge[2], edge[3]);
+    gl.bufferData(gl.ARRAY_BUFFER, edges.subarray(0, edgeLength), gl.STREAM_DRAW);
+    gl.drawArrays(gl.LINES, 0, edgeLength / 2);
+  }
+
+  private pushDisc(
+    index: number,
+    x: number,
+    y: number,
+    radius: number,
+    coreRatio: number,
+    glowOpacity: number,
+    coreOpacity: number,
+    color: Rgba
+  ) {
+    const offset = index * FLOATS_PER_DISC;
+    const { discs } = this;
+    discs[offset] = x;
+    discs[offset + 1] = y;
+    discs[offset + 2] = radius;
+    discs[offset + 3] = coreRatio;
+    discs[offset + 4] = glowOpacity;
+    discs[offset + 5] = coreOpacity;
+    discs[offset + 6] = color[0];
+    discs[offset + 7] = color[1];
+    discs[offset + 8] = color[2];
+    return index + 1;
+  }
+
+  private syncPalette(palette: readonly string[]) {
+    const key = palette.join('|');
+    if (key === this.paletteKey) return;
+
+    this.paletteKey = key;
+    this.paletteColors = palette.map(parseColor);
+  }
+}